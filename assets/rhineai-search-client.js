@@ -0,0 +1,581 @@
+(function() {
+    // `palette` opens the command palette on Ctrl+K, `preview` previews the results of TypeDoc's search and
+    // `analytics` sends the queries and selected results to the adapter of the `searchAnalytics` option
+    const { features = "", analytics: adapter, analyticsTarget, index: indexUrl, icons: iconsUrl } =
+        document.currentScript?.dataset || {};
+    const svgNamespace = "http://www.w3.org/2000/svg";
+    const maxResults = 50;
+    const snippetRadius = 40;
+    // queries are reported once the reader stopped typing
+    const searchEventDelay = 1000;
+
+    // prefixes like `class:` limit the results to reflections of these kinds, `heading:` to headings
+    const filters = {
+        module: 2 | 4,
+        namespace: 4,
+        class: 128,
+        interface: 256,
+        fn: 64 | 2048,
+        function: 64 | 2048,
+        type: 2097152,
+        enum: 8,
+        var: 32,
+        variable: 32,
+        prop: 1024 | 262144,
+        property: 1024 | 262144,
+        doc: 8388608,
+        heading: 0,
+    };
+
+    let palette;
+    let loading;
+    let entries = [];
+    let entriesByUrl = new Map();
+    let results = [];
+    let selected = -1;
+    let pendingSearch;
+
+    const sendEvent = features.includes("analytics") ? analyticsAdapter(adapter, analyticsTarget) : undefined;
+
+    if (features.includes("palette")) addPalette();
+    if (features.includes("preview")) addSearchPreview();
+    if (sendEvent) trackTypedocSearch();
+
+    function addPalette() {
+        window.addEventListener("keydown", (event) => {
+            if (!(event.ctrlKey || event.metaKey) || event.altKey || event.shiftKey || event.key.toLowerCase() !== "k") return;
+
+            // TypeDoc focuses its own search on Ctrl+K
+            event.preventDefault();
+            event.stopPropagation();
+            openPalette();
+        }, true);
+    }
+
+    function openPalette() {
+        palette = palette || createPalette();
+        if (palette.dialog.open) return palette.input.select();
+
+        palette.dialog.showModal();
+        palette.input.select();
+        loadEntries().then(search);
+    }
+
+    function createPalette() {
+        const dialog = document.createElement("dialog");
+        dialog.className = "tsd-palette";
+        dialog.setAttribute("aria-label", "Command palette");
+
+        const input = document.createElement("input");
+        input.className = "tsd-palette-input";
+        input.type = "search";
+        input.placeholder = "Search, or filter with class:, fn:, module:";
+        input.setAttribute("role", "combobox");
+        input.setAttribute("aria-expanded", "true");
+        input.setAttribute("aria-controls", "tsd-palette-results");
+        input.setAttribute("aria-autocomplete", "list");
+        input.autocomplete = "off";
+
+        const list = document.createElement("ul");
+        list.id = "tsd-palette-results";
+        list.className = "tsd-palette-results";
+        list.setAttribute("role", "listbox");
+
+        const footer = document.createElement("div");
+        footer.className = "tsd-palette-footer";
+        footer.textContent = "↑↓ to navigate, ↵ to open, esc to close";
+
+        dialog.append(input, list, footer);
+        document.body.append(dialog);
+
+        input.addEventListener("input", search);
+        input.addEventListener("keydown", (event) => {
+            if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+                event.preventDefault();
+                select(selected + (event.key === "ArrowDown" ? 1 : -1));
+            } else if (event.key === "Enter" && results[selected]) {
+                event.preventDefault();
+                trackPaletteSelection(selected);
+                location.href = entryUrl(results[selected].entry);
+            }
+        });
+        list.addEventListener("click", (event) => {
+            const option = event.target.closest("[role=option]");
+            if (option) trackPaletteSelection(Number(option.dataset.index));
+        });
+        list.addEventListener("mousemove", (event) => {
+            const option = event.target.closest("[role=option]");
+            if (option) select(Number(option.dataset.index));
+        });
+        // clicks on the backdrop land on the dialog itself
+        dialog.addEventListener("click", (event) => {
+            if (event.target === dialog) dialog.close();
+        });
+
+        return { dialog, input, list };
+    }
+
+    /**
+     * The entries are written by the theme to `assets/rhineai-search.js`, which is only loaded once it is needed
+     */
+    function loadEntries() {
+        loading = loading || new Promise((resolve) => {
+            const script = document.createElement("script");
+            script.src = indexUrl || baseUrl() + "assets/rhineai-search.js";
+            script.addEventListener("load", resolve);
+            script.addEventListener("error", resolve);
+            document.head.append(script);
+        }).then(() => window.rhineaiSearchData && decompress(window.rhineaiSearchData)).then((data) => {
+            entries = data || [];
+            entriesByUrl = new Map(entries.map((entry) => [entry.url, entry]));
+        });
+        return loading;
+    }
+
+    /**
+     * The entries are deflated and base64 encoded like TypeDoc's search index
+     */
+    async function decompress(data) {
+        const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+        const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate"));
+        return JSON.parse(await new Response(stream).text());
+    }
+
+    function search() {
+        const { kinds, query } = parseQuery(palette.input.value);
+
+        results = query
+            ? entries
+                .filter((entry) => matchesKinds(entry, kinds))
+                .map((entry) => ({ entry, match: matchEntry(query, entry) }))
+                .filter((result) => result.match)
+                .sort((a, b) => b.match.score - a.match.score)
+                .slice(0, maxResults)
+            : [];
+
+        renderResults(groupByModule(results), query);
+        select(results.length ? 0 : -1);
+        trackSearch("palette", palette.input.value.trim(), results.length);
+    }
+
+    function trackPaletteSelection(index) {
+        const { entry } = results[index];
+        trackSelection("palette", palette.input.value.trim(), results.length, {
+            name: entry.name,
+            url: entry.url,
+            rank: index + 1,
+        });
+    }
+
+    function parseQuery(value) {
+        const match = /^(\w+):\s*(.*)$/.exec(value.trim());
+        if (match && Object.hasOwn(filters, match[1].toLowerCase())) {
+            return { kinds: filters[match[1].toLowerCase()], query: match[2].toLowerCase() };
+        }
+        return { kinds: undefined, query: value.trim().toLowerCase() };
+    }
+
+    function matchesKinds(entry, kinds) {
+        if (kinds === undefined) return true;
+        if (kinds === 0) return entry.kind === undefined;
+        return (entry.kind & kinds) !== 0;
+    }
+
+    /**
+     * Match the name, or the full name when the query contains a dot like `Cache.get`, and the text of the comment
+     * when neither matches
+     */
+    function matchEntry(query, entry) {
+        const match = fuzzyMatch(query.replace(/\s+/g, ""), entry.name);
+        if (match) {
+            return { ...match, score: match.score - (entry.kind === undefined ? 2 : 0) };
+        }
+
+        const fullMatch = query.includes(".") && entry.parent && fuzzyMatch(query, entry.parent + "." + entry.name);
+        if (!fullMatch) return matchText(query, entry);
+
+        // only the part of the name is highlighted
+        const offset = entry.parent.length + 1;
+        return {
+            score: fullMatch.score,
+            positions: fullMatch.positions.filter((index) => index >= offset).map((index) => index - offset),
+        };
+    }
+
+    /**
+     * Every word of the query has to occur in the text, the result shows the text around the first one
+     */
+    function matchText(query, entry) {
+        if (!entry.text) return null;
+
+        const words = query.split(/\s+/).filter(Boolean);
+        const lower = entry.text.toLowerCase();
+        const indices = words.map((word) => lower.indexOf(word));
+        if (indices.some((index) => index < 0)) return null;
+
+        const first = Math.min(...indices);
+        return { score: words.length * 2 - first / 100, positions: [], words, textIndex: first };
+    }
+
+    /**
+     * The text around a position with every occurrence of the words highlighted
+     */
+    function snippet(text, words, position) {
+        const start = Math.max(0, text.lastIndexOf(" ", Math.max(0, position - snippetRadius)) + 1);
+        const endSpace = text.indexOf(" ", position + snippetRadius * 2);
+        const end = endSpace < 0 ? text.length : endSpace;
+        const part = (start > 0 ? "…" : "") + text.slice(start, end) + (end < text.length ? "…" : "");
+
+        const pattern = new RegExp(words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|"), "gi");
+        const positions = [];
+        for (const match of part.matchAll(pattern)) {
+            for (let index = match.index; index < match.index + match[0].length; index++) positions.push(index);
+        }
+        return highlight(part, positions);
+    }
+
+    /**
+     * Score the characters of the query found in order in the text, consecutive characters and those starting a word
+     * count more, contained and prefix matches most
+     */
+    function fuzzyMatch(query, text) {
+        const lower = text.toLowerCase();
+        const index = lower.indexOf(query);
+
+        if (index >= 0) {
+            const positions = Array.from(query, (_, offset) => index + offset);
+            const bonus = lower === query ? 100 : index === 0 ? 60 : isWordStart(text, index) ? 40 : 20;
+            return { score: bonus + query.length * 5 - text.length / 10, positions };
+        }
+
+        const positions = [];
+        let score = 0;
+        let last = -1;
+        for (const char of query) {
+            const next = lower.indexOf(char, last + 1);
+            if (next < 0) return null;
+
+            if (next === last + 1) score += 3;
+            if (isWordStart(text, next)) score += 4;
+            score -= Math.min(next - last - 1, 4);
+            positions.push(next);
+            last = next;
+        }
+
+        return { score: score - text.length / 10, positions };
+    }
+
+    function isWordStart(text, index) {
+        if (index === 0) return true;
+
+        const previous = text[index - 1];
+        const char = text[index];
+        return !/[a-z\d]/i.test(previous) || (/[a-z\d]/.test(previous) && /[A-Z]/.test(char));
+    }
+
+    /**
+     * Group the results by their module, the groups are ordered by their best result
+     */
+    function groupByModule(results) {
+        const groups = new Map();
+        for (const result of results) {
+            const module = result.entry.module || "";
+            if (!groups.has(module)) groups.set(module, []);
+            groups.get(module).push(result);
+        }
+
+        // the indices follow the rendered order, which the keyboard navigation goes through
+        results.splice(0, results.length, ...Array.from(groups.values()).flat());
+        return groups;
+    }
+
+    function renderResults(groups, query) {
+        const list = palette.list;
+        list.replaceChildren();
+
+        if (!query) return list.append(message("Type to search the documentation"));
+        if (!groups.size) return list.append(message("No results"));
+
+        let index = 0;
+        for (const [module, moduleResults] of groups) {
+            const heading = document.createElement("li");
+            heading.className = "tsd-palette-group";
+            heading.setAttribute("role", "presentation");
+            heading.textContent = module || projectName();
+            list.append(heading);
+
+            for (const { entry, match } of moduleResults) {
+                list.append(option(entry, match, index++));
+            }
+        }
+    }
+
+    function option(entry, match, index) {
+        const item = document.createElement("li");
+        item.id = "tsd-palette-option-" + index;
+        item.dataset.index = index;
+        item.setAttribute("role", "option");
+
+        const link = document.createElement("a");
+        link.href = entryUrl(entry);
+        link.tabIndex = -1;
+        link.append(icon(entry.icon));
+
+        const name = document.createElement("span");
+        name.className = "tsd-palette-name";
+        name.append(...highlight(entry.name, match.positions));
+        link.append(name);
+
+        if (entry.parent) {
+            const parent = document.createElement("span");
+            parent.className = "tsd-palette-parent";
+            parent.textContent = entry.parent;
+            link.append(parent);
+        }
+
+        if (match.words) {
+            const text = document.createElement("span");
+            text.className = "tsd-palette-snippet";
+            text.append(...snippet(entry.text, match.words, match.textIndex));
+            link.append(text);
+        }
+
+        item.append(link);
+        return item;
+    }
+
+    function select(index) {
+        const options = palette.list.querySelectorAll("[role=option]");
+        if (!options.length) {
+            selected = -1;
+            palette.input.removeAttribute("aria-activedescendant");
+            return;
+        }
+
+        selected = (index + options.length) % options.length;
+        options.forEach((option, optionIndex) => option.setAttribute("aria-selected", String(optionIndex === selected)));
+        palette.input.setAttribute("aria-activedescendant", options[selected].id);
+        options[selected].scrollIntoView({ block: "nearest" });
+    }
+
+    function highlight(text, positions) {
+        const nodes = [];
+        let start = 0;
+        for (const position of positions) {
+            if (position > start) nodes.push(text.slice(start, position));
+
+            const mark = document.createElement("mark");
+            mark.textContent = text[position];
+            nodes.push(mark);
+            start = position + 1;
+        }
+        nodes.push(text.slice(start));
+        return nodes;
+    }
+
+    /**
+     * An icon of TypeDoc's sprite, like those rendered in the navigation
+     */
+    function icon(name) {
+        const svg = document.createElementNS(svgNamespace, "svg");
+        svg.setAttribute("class", "tsd-kind-icon");
+        svg.setAttribute("viewBox", "0 0 24 24");
+        svg.setAttribute("aria-hidden", "true");
+
+        const use = document.createElementNS(svgNamespace, "use");
+        use.setAttribute("href", (iconsUrl || baseUrl() + "assets/icons.svg") + "#icon-" + name);
+        svg.append(use);
+        return svg;
+    }
+
+    /**
+     * Show the entry of the hovered or selected result of TypeDoc's search next to the results, TypeDoc marks the
+     * result selected by the arrow keys with `aria-selected`
+     */
+    function addSearchPreview() {
+        const list = document.getElementById("tsd-search-results");
+        if (!list) return;
+
+        const pane = document.createElement("aside");
+        pane.className = "tsd-search-preview";
+        pane.setAttribute("aria-live", "polite");
+        pane.hidden = true;
+        list.after(pane);
+
+        let current;
+        const show = (option) => {
+            const href = option?.querySelector("a")?.getAttribute("href") || "";
+            const url = href.startsWith(baseUrl()) ? href.slice(baseUrl().length) : href;
+            current = url;
+
+            loadEntries().then(() => {
+                if (current !== url) return;
+
+                const entry = entriesByUrl.get(url);
+                pane.hidden = !entry;
+                pane.replaceChildren(...(entry ? preview(entry) : []));
+            });
+        };
+
+        list.addEventListener("mouseover", (event) => {
+            const option = event.target.closest("[role=option]");
+            if (option) show(option);
+        });
+        new MutationObserver(() => show(list.querySelector("[aria-selected=true]"))).observe(list, {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            attributeFilter: ["aria-selected"],
+        });
+    }
+
+    function preview(entry) {
+        const module = document.createElement("div");
+        module.className = "tsd-search-preview-module";
+        module.append(icon("2"), entry.module || projectName());
+
+        const name = document.createElement("div");
+        name.className = "tsd-search-preview-name";
+        name.append(icon(entry.icon), [parentInModule(entry), entry.name].filter(Boolean).join("."));
+
+        const signatures = (entry.signatures || []).map((signature) => {
+            const code = document.createElement("code");
+            code.className = "tsd-signature";
+            code.textContent = signature;
+            return code;
+        });
+
+        const summary = document.createElement("p");
+        summary.className = "tsd-search-preview-summary";
+        summary.textContent = entry.summary || "";
+
+        return [module, name, ...signatures, ...(entry.summary ? [summary] : [])];
+    }
+
+    /**
+     * The name of the parent without the module shown above it, e.g. `Cache` for `services/cache/Cache.Cache`
+     */
+    function parentInModule(entry) {
+        if (!entry.parent || entry.parent === entry.module) return "";
+        return entry.module && entry.parent.startsWith(entry.module + ".")
+            ? entry.parent.slice(entry.module.length + 1)
+            : entry.parent;
+    }
+
+    /**
+     * Report the queries of TypeDoc's search by the results it rendered, TypeDoc lists the best 10
+     */
+    function trackTypedocSearch() {
+        const input = document.getElementById("tsd-search-input");
+        const list = document.getElementById("tsd-search-results");
+        if (!input || !list) return;
+
+        const options = () => Array.from(list.querySelectorAll("[role=option]"));
+        new MutationObserver(() => trackSearch("search", input.value.trim(), options().length)).observe(list, {
+            childList: true,
+        });
+
+        // TypeDoc clicks the link of the selected result on Enter
+        list.addEventListener("click", (event) => {
+            const option = event.target.closest("[role=option]");
+            const link = option?.querySelector("a");
+            if (!link) return;
+
+            const href = link.getAttribute("href");
+            trackSelection("search", input.value.trim(), options().length, {
+                name: link.textContent.trim(),
+                url: href.startsWith(baseUrl()) ? href.slice(baseUrl().length) : href,
+                rank: options().indexOf(option) + 1,
+            });
+        });
+    }
+
+    function trackSearch(source, query, resultCount) {
+        if (!sendEvent) return;
+
+        clearTimeout(pendingSearch?.timer);
+        pendingSearch = query && {
+            event: searchEvent("search", source, query, resultCount),
+            timer: setTimeout(flushSearch, searchEventDelay),
+        };
+    }
+
+    function trackSelection(source, query, resultCount, result) {
+        if (!sendEvent) return;
+
+        flushSearch();
+        sendEvent({ ...searchEvent("select", source, query, resultCount), result });
+    }
+
+    function flushSearch() {
+        if (!pendingSearch) return;
+
+        clearTimeout(pendingSearch.timer);
+        sendEvent(pendingSearch.event);
+        pendingSearch = undefined;
+    }
+
+    function searchEvent(type, source, query, resultCount) {
+        return { type, source, query, resultCount, page: location.pathname, timestamp: new Date().toISOString() };
+    }
+
+    /**
+     * The function sending an event, `console` logs it, `post` posts it as JSON to the same origin URL and `callback`
+     * calls the global function of the name, looked up for every event so the collector may be loaded later
+     */
+    function analyticsAdapter(adapter, target) {
+        window.addEventListener("pagehide", () => flushSearch());
+
+        if (adapter === "console") {
+            return (event) => console.info("[search]", event);
+        }
+        if ((adapter === "post" || adapter === "callback") && !target) {
+            console.warn(`The search events are not sent, the ${adapter} adapter has no ${adapter === "post" ? "endpoint" : "callback"}!`);
+            return undefined;
+        }
+        if (adapter === "post") {
+            const url = new URL(target, location.href);
+            if (url.origin !== location.origin) {
+                console.warn(`The search events are not posted to ${url}, which is not on the same origin!`);
+                return undefined;
+            }
+
+            return (event) => {
+                const body = JSON.stringify(event);
+                if (navigator.sendBeacon?.(url, new Blob([body], { type: "application/json" }))) return;
+                fetch(url, {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body,
+                    keepalive: true,
+                }).catch(() => {});
+            };
+        }
+        if (adapter === "callback") {
+            return (event) => {
+                const callback = window[target];
+                if (typeof callback === "function") callback(event);
+            };
+        }
+        return undefined;
+    }
+
+    function message(text) {
+        const item = document.createElement("li");
+        item.className = "tsd-palette-message";
+        item.textContent = text;
+        return item;
+    }
+
+    function entryUrl(entry) {
+        return baseUrl() + entry.url;
+    }
+
+    function baseUrl() {
+        return document.documentElement.dataset.base || "./";
+    }
+
+    function projectName() {
+        return document.querySelector(".tsd-page-toolbar .title")?.textContent.trim() || "Project";
+    }
+})();
@@ -0,0 +1,272 @@
+(function() {
+    addCurrentClassName();
+    showSettings();
+    moveOverlay();
+    addScrollbarSetting();
+    addCopyButtons();
+    closeBreadcrumbOverflow();
+    expandCodeBlocks();
+    addSidebarSections();
+
+    function showSettings() {
+        const timer = setInterval(() => {
+            const details = document.querySelector('.settings > details.tsd-accordion');
+            if (!details) return;
+
+            clearInterval(timer);
+            setTimeout(() => {
+                details.setAttribute('open', 'true')
+            }, 1);
+        }, 10);
+    }
+
+    function addCurrentClassName() {
+        const timer = setInterval(() => {
+            const nav = document.querySelector('.site-menu > .tsd-navigation');
+            if (!nav) return;
+
+            clearInterval(timer);
+            setTimeout(() => {
+                highlightCurrent(nav);
+            }, 1);
+        }, 10);
+
+        function highlightCurrent(nav) {
+            const currentPath = normalizePath(window.location.pathname);
+            const currentHash = normalizeHash(window.location.hash);
+
+            const links = nav.querySelectorAll('a[href]');
+            links.forEach(a => {
+                const href = a.getAttribute('href');
+                if (!href) return;
+
+                try {
+                    const url = new URL(href, window.location.href);
+
+                    const linkPath = normalizePath(url.pathname);
+                    const linkHash = normalizeHash(url.hash);
+
+                    // path 必须一致
+                    if (linkPath !== currentPath) return;
+
+                    // 只要一方有 hash，就要求双方 hash 完全一致
+                    if (linkHash || currentHash) {
+                        if (linkHash !== currentHash) return;
+                    }
+
+                    a.classList.add('current');
+                } catch (e) {}
+            });
+        }
+
+        function normalizePath(path) {
+            return path
+                .replace(/\/+$/, '')     // 去掉结尾 /
+                .replace(/\.html$/, '')  // 忽略 .html
+                .toLowerCase();
+        }
+
+        function normalizeHash(hash) {
+            // 统一处理：'' 或 '#xxx'（不做 toLowerCase 也可以）
+            return hash || '';
+        }
+    }
+
+    function moveOverlay() {
+        const timer = setInterval(() => {
+            const colContent = document.querySelector('.col-content');
+            const overlay = document.querySelector('.overlay');
+
+            if (colContent && overlay) {
+                colContent.appendChild(overlay);
+
+                clearInterval(timer);
+            }
+        }, 10);
+    }
+
+    function addScrollbarSetting() {
+        if (document.readyState === "loading") return document.addEventListener("DOMContentLoaded", addScrollbarSetting);
+        const select = document.getElementById("tsd-scrollbar");
+        if (!select) return;
+        select.value = document.documentElement.dataset.scrollbar;
+        select.addEventListener("change", () => {
+            localStorage.setItem("tsd-scrollbar", select.value);
+            document.documentElement.dataset.scrollbar = select.value;
+        });
+    }
+
+    function addCopyButtons() {
+        document.addEventListener("click", (event) => {
+            const button = event.target.closest("[data-copy]");
+            if (!button) return;
+
+            navigator.clipboard.writeText(button.dataset.copy).then(() => {
+                button.classList.add("copied");
+                clearTimeout(button.copiedTimeout);
+                button.copiedTimeout = setTimeout(() => button.classList.remove("copied"), 2000);
+            });
+        });
+    }
+
+    function closeBreadcrumbOverflow() {
+        document.addEventListener("click", (event) => {
+            document.querySelectorAll(".tsd-breadcrumb-overflow[open]").forEach((details) => {
+                if (!details.contains(event.target)) details.removeAttribute("open");
+            });
+        });
+    }
+
+    function expandCodeBlocks() {
+        document.addEventListener("click", (event) => {
+            const button = event.target.closest(".tsd-code-expand");
+            if (!button) return;
+
+            const expanded = button.parentElement.classList.toggle("tsd-code-expanded");
+            button.setAttribute("aria-expanded", String(expanded));
+            button.textContent = expanded ? "Show less" : "Show more";
+        });
+    }
+
+    function addSidebarSections() {
+        if (document.readyState === "loading") return document.addEventListener("DOMContentLoaded", addSidebarSections);
+        const container = document.querySelector(".tsd-sidebar-sections");
+        if (!container) return;
+
+        const base = document.documentElement.dataset.base || "./";
+        // several documentations can share an origin, each keeps its own pages
+        const scope = new URL(base, location.href).pathname;
+        const pinnedKey = "tsd-pinned:" + scope;
+        const recentKey = "tsd-recent:" + scope;
+        const recentLimit = Number(container.dataset.recent) || 0;
+        const pinnedEnabled = container.dataset.pinned === "true";
+        const page = {
+            url: container.dataset.pageUrl,
+            name: container.dataset.pageName,
+            title: container.dataset.pageTitle,
+            icon: container.dataset.pageIcon,
+        };
+        const icons = container.dataset.icons || base + "assets/icons.svg";
+        const pinButton = document.querySelector(".tsd-pin-button");
+
+        let pinned = pinnedEnabled ? readPages(pinnedKey) : [];
+        // the current page is recorded first and left out of the section
+        let recent = readPages(recentKey).filter((other) => other.url !== page.url);
+        if (recentLimit > 0) writePages(recentKey, [page, ...recent].slice(0, recentLimit + 1));
+        recent = recent.slice(0, recentLimit);
+
+        render();
+        pinButton?.addEventListener("click", togglePin);
+        window.addEventListener("storage", (event) => {
+            if (event.key !== pinnedKey) return;
+            pinned = readPages(pinnedKey);
+            render();
+        });
+        document.addEventListener("keydown", (event) => {
+            if (!event.altKey || event.ctrlKey || event.metaKey || isEditable(event.target)) return;
+
+            const digit = /^Digit([1-9])$/.exec(event.code);
+            if (digit) {
+                const target = (event.shiftKey ? recent : pinned)[Number(digit[1]) - 1];
+                if (!target) return;
+                event.preventDefault();
+                location.href = base + target.url;
+            } else if (event.code === "KeyP" && !event.shiftKey && pinnedEnabled) {
+                event.preventDefault();
+                togglePin();
+            }
+        });
+
+        function togglePin() {
+            const index = pinned.findIndex((other) => other.url === page.url);
+            pinned = index === -1 ? [...pinned, page] : pinned.filter((_, other) => other !== index);
+            writePages(pinnedKey, pinned);
+            render();
+        }
+
+        function render() {
+            const isPinned = pinned.some((other) => other.url === page.url);
+            if (pinButton) {
+                pinButton.setAttribute("aria-pressed", String(isPinned));
+                pinButton.setAttribute("aria-label", isPinned ? "Unpin this page" : "Pin this page");
+                pinButton.title = (isPinned ? "Unpin this page" : "Pin this page") + " (Alt+P)";
+            }
+
+            container.replaceChildren(
+                ...[
+                    renderSection("Pinned", pinned, "Alt+"),
+                    renderSection("Recent", recent, "Alt+Shift+"),
+                ].filter(Boolean),
+            );
+        }
+
+        function renderSection(title, pages, shortcut) {
+            if (!pages.length) return;
+
+            const section = document.createElement("section");
+            section.className = "tsd-sidebar-section";
+            const heading = document.createElement("h3");
+            heading.textContent = title;
+            const list = document.createElement("ul");
+
+            pages.forEach((target, index) => {
+                const item = document.createElement("li");
+                const link = document.createElement("a");
+                link.href = base + target.url;
+                link.title = target.title + (index < 9 ? " (" + shortcut + (index + 1) + ")" : "");
+                if (index < 9) link.setAttribute("aria-keyshortcuts", shortcut + (index + 1));
+                if (target.url === page.url) link.classList.add("current");
+                link.append(kindIcon(target.icon), target.name);
+                item.append(link);
+
+                if (title === "Pinned") {
+                    const unpin = document.createElement("button");
+                    unpin.type = "button";
+                    unpin.className = "tsd-unpin-button";
+                    unpin.setAttribute("aria-label", "Unpin " + target.title);
+                    unpin.textContent = "×";
+                    unpin.addEventListener("click", () => {
+                        pinned = pinned.filter((other) => other.url !== target.url);
+                        writePages(pinnedKey, pinned);
+                        render();
+                    });
+                    item.append(unpin);
+                }
+                list.append(item);
+            });
+
+            section.append(heading, list);
+            return section;
+        }
+
+        function kindIcon(icon) {
+            const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+            svg.setAttribute("class", "tsd-kind-icon");
+            svg.setAttribute("viewBox", "0 0 24 24");
+            svg.setAttribute("aria-hidden", "true");
+            const use = document.createElementNS("http://www.w3.org/2000/svg", "use");
+            use.setAttribute("href", icons + "#icon-" + icon);
+            svg.append(use);
+            return svg;
+        }
+    }
+
+    function readPages(key) {
+        try {
+            const pages = JSON.parse(localStorage.getItem(key) || "[]");
+            return Array.isArray(pages) ? pages.filter((page) => page && typeof page.url === "string") : [];
+        } catch (e) {
+            return [];
+        }
+    }
+
+    function writePages(key, pages) {
+        try {
+            localStorage.setItem(key, JSON.stringify(pages));
+        } catch (e) {}
+    }
+
+    function isEditable(element) {
+        return element instanceof HTMLElement && (element.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(element.tagName));
+    }
+})();
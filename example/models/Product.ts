@@ -200,7 +200,7 @@ export interface IProduct {
  * price calculations, stock management, and data transformation.
  *
  * @example
- * ```typescript
+ * ```typescript title="product.ts"
  * const product = new Product({
  *   id: 'prod-123',
  *   sku: 'WIDGET-001',
@@ -0,0 +1,48 @@
+import { cpSync, existsSync } from 'fs'
+import { extname, resolve } from 'path'
+
+import { isUrl, resolveOptionPath } from './options.js'
+
+import type { Application, RendererEvent } from 'typedoc'
+import type { RhineaiThemeOptions } from './options.js'
+
+/**
+ * Where a user supplied image is linked from, relative to the output directory unless it is an URL
+ *
+ * @param name - File name of the image in the assets directory, without extension
+ */
+export function imageUrl(path: string, name: string) {
+  return isUrl(path) ? path : `assets/${name}${extname(path).toLowerCase()}`
+}
+
+/**
+ * Link to a user supplied image from the current page
+ */
+export function imageLink(path: string, name: string, relativeURL: (url: string) => string) {
+  return isUrl(path) ? path : relativeURL(imageUrl(path, name))
+}
+
+/**
+ * Copy the user supplied images, except those given as URLs, into the assets directory of the output
+ */
+export function copyImages(application: Application, event: RendererEvent) {
+  for (const [path, name] of images(application.options.getValue('rhineai'))) {
+    if (!path || isUrl(path)) continue
+
+    const from = resolveOptionPath(application.options, path)
+    if (!existsSync(from)) {
+      application.logger.warn(`The image '${path}' does not exist and is not copied to the output!`)
+      continue
+    }
+
+    cpSync(from, resolve(event.outputDirectory, imageUrl(path, name)))
+  }
+}
+
+function images(options: RhineaiThemeOptions) {
+  return [
+    [options.appleTouchIcon, 'apple-touch-icon'],
+    [options.logo.light, 'logo-light'],
+    [options.logo.dark, 'logo-dark'],
+  ] as const
+}
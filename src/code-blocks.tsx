@@ -0,0 +1,124 @@
+import { JSX } from 'typedoc'
+
+import type { Application } from 'typedoc'
+import type { CodeBlocksOptions } from './options.js'
+
+/**
+ * The parts of markdown-it the theme uses, TypeDoc does not export its types
+ */
+interface MarkdownIt {
+  renderer: { rules: Record<string, RenderRule | undefined> }
+}
+
+type RenderRule = (tokens: { info: string; content: string }[], index: number, ...rest: unknown[]) => string
+
+/**
+ * Settings of a fenced code block read from its info string, e.g. ```` ```ts title="cache.ts" {1,3-5} showLineNumbers ````
+ */
+interface FenceInfo {
+  lang: string
+  title?: string
+  highlighted: Set<number>
+  lineNumbers: boolean
+}
+
+/**
+ * Extend the fenced code blocks of comments, `@example` tags and markdown documents with a title bar, highlighted
+ * lines, line numbers and collapsing of long blocks. The `markdownItLoader` set by the user still runs first.
+ */
+export function extendCodeBlocks(app: Application, options: CodeBlocksOptions) {
+  const loader = app.options.getValue('markdownItLoader')
+
+  app.options.setValue('markdownItLoader', (parser: MarkdownIt) => {
+    loader(parser)
+
+    const fence = parser.renderer.rules.fence
+    if (!fence) return
+
+    parser.renderer.rules.fence = (tokens, index, ...rest) => {
+      const token = tokens[index]
+      const info = parseInfo(token.info, token.content.replace(/\n$/, '').split('\n').length, options)
+
+      // TypeDoc highlights by the first word of the info string, which has to be the language
+      const original = token.info
+      token.info = info.lang
+      const html = fence(tokens, index, ...rest)
+      token.info = original
+
+      return renderCodeBlock(html, info, options)
+    }
+  })
+}
+
+function parseInfo(info: string, lineCount: number, options: CodeBlocksOptions): FenceInfo {
+  const title = /(?:^|\s)title=(?:"([^"]*)"|'([^']*)')/.exec(info)
+  const ranges = /(?:^|\s)\{([\d\s,-]*)\}/.exec(info)
+  const lang = info.trim().split(/\s+/, 1)[0]
+
+  return {
+    lang: lang.startsWith('{') || lang.includes('=') ? '' : lang,
+    title: title?.[1] ?? title?.[2],
+    highlighted: parseRanges(ranges?.[1] ?? '', lineCount),
+    lineNumbers: options.lineNumbers || /(?:^|\s)showLineNumbers(?:\s|$)/.test(info),
+  }
+}
+
+/**
+ * Lines of ranges like `1,3-5`, the ranges are cut at the last line of the block
+ */
+function parseRanges(ranges: string, lineCount: number) {
+  const lines = new Set<number>()
+
+  for (const range of ranges.split(',')) {
+    const [start, end = start] = range.split('-').map((line) => Number(line.trim()))
+    for (let line = Math.max(start, 1); line <= Math.min(end, lineCount); line++) {
+      lines.add(line)
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Wrap the lines of the `<pre>` block rendered by TypeDoc, highlighted code separates the lines by `<br/>` elements
+ */
+function renderCodeBlock(html: string, info: FenceInfo, options: CodeBlocksOptions) {
+  const match = /^<pre><code([^>]*)>([\s\S]*)<\/code>([\s\S]*)<\/pre>\s*$/.exec(html)
+  if (!match) return html
+
+  const [, attributes, code, button] = match
+  const separator = code.includes('<br/>') ? '<br/>' : '\n'
+  const lines = code.replace(/\n$/, '').split(separator)
+  const collapsible = options.collapseAfter > 0 && lines.length > options.collapseAfter
+
+  if (!info.title && !info.highlighted.size && !info.lineNumbers && !collapsible) {
+    return html
+  }
+
+  const wrapped =
+    info.highlighted.size || info.lineNumbers
+      ? lines
+          .map((line, index) => {
+            const highlighted = info.highlighted.has(index + 1) ? ' tsd-code-line-highlighted' : ''
+            return `<span class="tsd-code-line${highlighted}" data-line="${index + 1}">${line}</span>`
+          })
+          .join(separator) + '\n'
+      : code
+
+  return (
+    JSX.renderElement(
+      <div
+        class={`tsd-code-block${info.lineNumbers ? ' tsd-code-line-numbers' : ''}${collapsible ? ' tsd-code-collapsible' : ''}`}
+        style={collapsible ? `--tsd-code-max-lines: ${options.collapseAfter}` : undefined}
+      >
+        {info.title && <div class='tsd-code-title'>{info.title}</div>}
+        <JSX.Raw html={`<pre><code${attributes}>${wrapped}</code>${button}</pre>`} />
+        {collapsible && (
+          <button type='button' class='tsd-code-expand' aria-expanded='false'>
+            Show more
+          </button>
+        )}
+      </div>,
+    ) + '\n'
+  )
+}
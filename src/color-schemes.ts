@@ -0,0 +1,72 @@
+import { readFileSync, writeFileSync } from 'fs'
+import { resolve } from 'path'
+
+import type { Application, RendererEvent, TypeDocOptionMap } from 'typedoc'
+
+type ShikiTheme = TypeDocOptionMap['lightHighlightTheme']
+
+export const lightColorSchemes = ['default', 'high-contrast', 'protanopia', 'tritanopia'] as const
+export const darkColorSchemes = ['default', 'dimmed', 'high-contrast', 'protanopia', 'tritanopia'] as const
+
+export type LightColorScheme = (typeof lightColorSchemes)[number]
+export type DarkColorScheme = (typeof darkColorSchemes)[number]
+
+/**
+ * Labels of the color scheme variants readers can pick in the theme select, next to TypeDoc's OS, light and dark
+ */
+export const colorSchemeVariants: Record<string, string> = {
+  'light-high-contrast': 'Light high contrast',
+  'light-protanopia': 'Light protanopia & deuteranopia',
+  'light-tritanopia': 'Light tritanopia',
+  'dark-dimmed': 'Dark dimmed',
+  'dark-high-contrast': 'Dark high contrast',
+  'dark-protanopia': 'Dark protanopia & deuteranopia',
+  'dark-tritanopia': 'Dark tritanopia',
+}
+
+/**
+ * Shiki has no colorblind GitHub themes, those use the default ones
+ */
+const lightHighlightThemes: Record<LightColorScheme, ShikiTheme> = {
+  default: 'github-light-default',
+  'high-contrast': 'github-light-high-contrast',
+  protanopia: 'github-light-default',
+  tritanopia: 'github-light-default',
+}
+
+const darkHighlightThemes: Record<DarkColorScheme, ShikiTheme> = {
+  default: 'github-dark-default',
+  dimmed: 'github-dark-dimmed',
+  'high-contrast': 'github-dark-high-contrast',
+  protanopia: 'github-dark-default',
+  tritanopia: 'github-dark-default',
+}
+
+/**
+ * Highlight code with the GitHub themes matching the light and dark color schemes, unless set by the user
+ */
+export function setHighlightThemes(app: Application) {
+  const { light, dark } = app.options.getValue('rhineai').colorScheme
+
+  if (!app.options.isSet('lightHighlightTheme')) {
+    app.options.setValue('lightHighlightTheme', lightHighlightThemes[light])
+  }
+
+  if (!app.options.isSet('darkHighlightTheme')) {
+    app.options.setValue('darkHighlightTheme', darkHighlightThemes[dark])
+  }
+}
+
+/**
+ * Let the color scheme variants use the code colors of the light or dark theme they are based on, TypeDoc's
+ * `highlight.css` only maps them for `data-theme` being `light` or `dark`
+ */
+export function extendHighlightStyles(event: RendererEvent) {
+  const path = resolve(event.outputDirectory, './assets/highlight.css')
+  const styles = readFileSync(path, 'utf-8').replace(
+    /:root\[data-theme='(light|dark)'\] \{/g,
+    ":root[data-theme='$1'],\n:root[data-theme^='$1-'] {",
+  )
+
+  writeFileSync(path, styles)
+}
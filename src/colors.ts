@@ -0,0 +1,59 @@
+import { readFileSync } from 'fs'
+
+import { ReflectionKind } from 'typedoc'
+
+import { themeStylesheet, typedocStylesheet } from './paths.js'
+
+import type { RhineaiThemeOptions } from './options.js'
+
+let variables: Set<string> | undefined
+
+/**
+ * Names of the color variables TypeDoc and the theme define for both color schemes, e.g. `color-background` for
+ * `--light-color-background` and `--dark-color-background`
+ */
+export function colorVariables() {
+  if (!variables) {
+    const stylesheets = [typedocStylesheet, themeStylesheet].map((path) => readFileSync(path, 'utf-8')).join('\n')
+    const names = (scheme: string) =>
+      new Set(Array.from(stylesheets.matchAll(new RegExp(`--${scheme}-([\\w-]+)\\s*:`, 'g')), (match) => match[1]))
+
+    const dark = names('dark')
+    // `color-scheme` is a keyword rather than a color
+    variables = new Set(
+      [...names('light')].filter((name) => name.startsWith('color-') && name !== 'color-scheme' && dark.has(name)),
+    )
+  }
+
+  return variables
+}
+
+/**
+ * Color variables of the reflection kinds, keyed by the name of the kind, e.g. `TypeAlias` for `color-ts-type-alias`
+ */
+export function kindColorVariables() {
+  return new Map(
+    Object.entries(ReflectionKind)
+      .filter(([, kind]) => typeof kind === 'number' && (kind & (kind - 1)) === 0)
+      .map(([name]) => [name, `color-ts-${name.replace(/(?<=[a-z])(?=[A-Z])/g, '-').toLowerCase()}`] as const)
+      .filter(([, variable]) => colorVariables().has(variable)),
+  )
+}
+
+/**
+ * Compile the `kindColors` and `colors` options into a stylesheet setting the variables of both color schemes, it is
+ * placed after the theme stylesheet so the colors win over those of the theme
+ */
+export function colorStyles(options: Pick<RhineaiThemeOptions, 'kindColors' | 'colors'>) {
+  const variables = kindColorVariables()
+  const byVariable = (colors: Record<string, string>) =>
+    Object.fromEntries(Object.entries(colors).map(([kind, color]) => [variables.get(kind), color]))
+
+  const declarations = (['light', 'dark'] as const).flatMap((scheme) =>
+    Object.entries({ ...byVariable(options.kindColors[scheme]), ...options.colors[scheme] }).map(
+      ([name, color]) => `--${scheme}-${name}:${color};`,
+    ),
+  )
+
+  return declarations.length ? `:root{${declarations.join('')}}` : ''
+}
@@ -0,0 +1,239 @@
+/**
+ * A rule or block at-rule, e.g. `@media`, `@layer` and `@keyframes`
+ */
+interface CssBlock {
+  prelude: string
+  children: CssItem[]
+}
+
+interface CssDeclaration {
+  property: string
+  value: string
+  important: boolean
+}
+
+/**
+ * An at-rule without block, e.g. `@import`
+ */
+interface CssStatement {
+  statement: string
+}
+
+type CssItem = CssBlock | CssDeclaration | CssStatement
+
+/**
+ * Selectors of the rules which style the page before it is scrolled: variables, page structure and toolbar
+ */
+const criticalSelectors = [
+  /^(:root|html|body|header|\*)(?![\w-])/,
+  /^\.(tsd-page-toolbar|tsd-toolbar-contents|container-main|col-content|col-sidebar|tsd-logo)(?![\w-])/,
+  /^#tsd-(toolbar-menu-trigger|search-trigger|toolbar-links)(?![\w-])/,
+]
+
+/**
+ * Merge TypeDoc's stylesheet with the theme stylesheet into one minified stylesheet.
+ *
+ * TypeDoc wraps its rules in `@layer typedoc`, so every unlayered theme rule wins over them regardless of the
+ * specificity. Declarations of TypeDoc which the theme sets for the same selector are dropped, as are comments.
+ */
+export function bundleStylesheets(typedoc: string, theme: string) {
+  const themeItems = parse(theme)
+  const overrides = new Map<string, Set<string>>()
+  collectOverrides(themeItems, [], overrides)
+
+  const items = [...stripOverridden(parse(typedoc), [], overrides), ...themeItems]
+
+  return {
+    bundle: serialize(items),
+    critical: serialize(filterCritical(items)),
+  }
+}
+
+/**
+ * Load TypeDoc's stylesheet of a rendered page without blocking the rendering, the critical part of the stylesheet
+ * is inlined into the page instead
+ */
+export function deferStylesheet(contents: string) {
+  return contents.replace(
+    /<link rel="stylesheet" href="([^"]*assets\/style(?:\.[0-9a-f]{8})?\.css[^"]*)"\/>/,
+    `<link rel="preload" as="style" href="$1" onload="this.onload=null;this.rel='stylesheet'"/><noscript><link rel="stylesheet" href="$1"/></noscript>`,
+  )
+}
+
+function parse(css: string): CssItem[] {
+  let index = 0
+  let depth = 0
+
+  function parseItems(): CssItem[] {
+    const items: CssItem[] = []
+    let text = ''
+
+    const flush = () => {
+      const item = text.trim()
+      text = ''
+      if (!item) return
+
+      if (item.startsWith('@')) {
+        items.push({ statement: item })
+        return
+      }
+
+      const colon = item.indexOf(':')
+      if (colon === -1) return
+
+      const value = item.slice(colon + 1).trim()
+      const important = /!\s*important$/i.test(value)
+      items.push({
+        property: item.slice(0, colon).trim(),
+        value: important ? value.replace(/\s*!\s*important$/i, '') : value,
+        important,
+      })
+    }
+
+    while (index < css.length) {
+      const char = css[index]
+
+      if (char === '/' && css[index + 1] === '*') {
+        const end = css.indexOf('*/', index + 2)
+        index = end === -1 ? css.length : end + 2
+      } else if (char === '"' || char === "'") {
+        const start = index
+        index++
+        while (index < css.length && css[index] !== char) {
+          index += css[index] === '\\' ? 2 : 1
+        }
+        index++
+        text += css.slice(start, index)
+      } else if (char === '(' || char === ')') {
+        // semicolons and braces inside of `url()` and friends do not end the declaration
+        depth += char === '(' ? 1 : -1
+        index++
+        text += char
+      } else if (depth > 0) {
+        index++
+        text += char
+      } else if (char === '{') {
+        index++
+        const prelude = text.trim()
+        text = ''
+        items.push({ prelude, children: parseItems() })
+      } else if (char === '}') {
+        index++
+        break
+      } else if (char === ';') {
+        index++
+        flush()
+      } else {
+        index++
+        text += char
+      }
+    }
+
+    flush()
+    return items
+  }
+
+  return parseItems()
+}
+
+function serialize(items: CssItem[]): string {
+  return items
+    .map((item, index) => {
+      if ('children' in item) {
+        return `${minify(item.prelude)}{${serialize(item.children)}}`
+      }
+
+      if ('statement' in item) {
+        return `${minify(item.statement)};`
+      }
+
+      const declaration = `${item.property}:${minify(item.value)}${item.important ? '!important' : ''}`
+      return index < items.length - 1 ? `${declaration};` : declaration
+    })
+    .join('')
+}
+
+/**
+ * Collapse the whitespace of a selector, prelude or value, leaving strings untouched
+ */
+function minify(text: string) {
+  return text
+    .split(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/)
+    .map((part, index) =>
+      index % 2
+        ? part
+        : part
+            .replace(/\s+/g, ' ')
+            .replace(/ ?([,>]) ?/g, '$1')
+            .replace(/\( | \)/g, (match) => match.trim()),
+    )
+    .join('')
+    .trim()
+}
+
+/**
+ * The properties the theme sets for each selector, keyed by the selector and the at-rules around it
+ */
+function collectOverrides(items: CssItem[], context: string[], overrides: Map<string, Set<string>>) {
+  for (const item of items) {
+    if (!('children' in item)) continue
+
+    if (item.prelude.startsWith('@')) {
+      collectOverrides(item.children, [...context, minify(item.prelude)], overrides)
+      continue
+    }
+
+    const key = overrideKey(context, item.prelude)
+    const properties = overrides.get(key) ?? new Set()
+    for (const child of item.children) {
+      if ('property' in child) properties.add(child.property.toLowerCase())
+    }
+    overrides.set(key, properties)
+  }
+}
+
+function stripOverridden(items: CssItem[], context: string[], overrides: Map<string, Set<string>>): CssItem[] {
+  return items.flatMap((item): CssItem[] => {
+    if (!('children' in item)) return [item]
+
+    if (item.prelude.startsWith('@')) {
+      // layers do not change which rules a theme rule is compared with
+      const children = stripOverridden(
+        item.children,
+        item.prelude.startsWith('@layer') ? context : [...context, minify(item.prelude)],
+        overrides,
+      )
+      return children.length ? [{ ...item, children }] : []
+    }
+
+    // unconditional theme rules override conditional ones as well
+    const overridden = [overrides.get(overrideKey(context, item.prelude)), overrides.get(overrideKey([], item.prelude))]
+    const children = item.children.filter(
+      (child) =>
+        !('property' in child) ||
+        child.important ||
+        !overridden.some((properties) => properties?.has(child.property.toLowerCase())),
+    )
+    return children.length ? [{ ...item, children }] : []
+  })
+}
+
+function overrideKey(context: string[], selector: string) {
+  return [...context, minify(selector)].join('\n')
+}
+
+function filterCritical(items: CssItem[]): CssItem[] {
+  return items.flatMap((item): CssItem[] => {
+    if (!('children' in item)) return []
+
+    if (item.prelude.startsWith('@')) {
+      if (/^@(-\w+-)?keyframes/.test(item.prelude)) return []
+
+      const children = filterCritical(item.children)
+      return children.length ? [{ ...item, children }] : []
+    }
+
+    const selectors = item.prelude.split(',').map((selector) => selector.trim())
+    return selectors.some((selector) => criticalSelectors.some((pattern) => pattern.test(selector))) ? [item] : []
+  })
+}
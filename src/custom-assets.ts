@@ -0,0 +1,153 @@
+import { cpSync, existsSync, readdirSync, statSync } from 'fs'
+import { basename, extname, join, relative, resolve } from 'path'
+
+import { resolveOptionPath } from './options.js'
+
+import type { Application, RendererEvent } from 'typedoc'
+
+export interface CustomAsset {
+  /**
+   * Absolute path of the user supplied file
+   */
+  from: string
+  /**
+   * Where the file is copied to, relative to the output directory
+   */
+  url: string
+}
+
+/**
+ * Resolve the `customCss` and `customJs` options to the files they match, warning about paths which match nothing
+ */
+export function resolveCustomAssets(application: Application) {
+  const options = application.options.getValue('rhineai')
+  const urls = new Set<string>()
+
+  return {
+    stylesheets: matchFiles(application, options.customCss, 'stylesheet', urls),
+    scripts: matchFiles(application, options.customJs, 'script', urls),
+  }
+}
+
+/**
+ * Copy the custom stylesheets and scripts into `assets/custom/` of the output
+ */
+export function copyCustomAssets(assets: CustomAsset[], event: RendererEvent) {
+  for (const { from, url } of assets) {
+    cpSync(from, resolve(event.outputDirectory, url))
+  }
+}
+
+/**
+ * `urls` holds the files already copied to `assets/custom/`, files of different directories sharing a name are
+ * numbered instead of overwriting each other
+ */
+function matchFiles(application: Application, patterns: string | string[], kind: string, urls: Set<string>) {
+  const assets = new Map<string, CustomAsset>()
+
+  for (const pattern of typeof patterns === 'string' ? [patterns] : patterns) {
+    const matches = isGlob(pattern)
+      ? glob(resolveOptionPath(application.options, pattern), application.options.getValue('out'))
+      : [resolveOptionPath(application.options, pattern)].filter((file) => existsSync(file))
+    const files = matches.filter((file) => statSync(file).isFile())
+
+    if (!matches.length) {
+      application.logger.warn(`The custom ${kind} '${pattern}' does not exist and is not linked!`)
+    } else if (files.length < matches.length) {
+      application.logger.warn(`The custom ${kind} '${pattern}' is not a file and is not linked!`)
+    }
+
+    for (const from of files) {
+      if (!assets.has(from)) {
+        assets.set(from, { from, url: uniqueUrl(basename(from), urls) })
+      }
+    }
+  }
+
+  return [...assets.values()]
+}
+
+/**
+ * `theme.css`, then `theme-2.css`, `theme-3.css`, … for further files named `theme.css`
+ */
+function uniqueUrl(name: string, urls: Set<string>) {
+  const extension = extname(name)
+  let url = `assets/custom/${name}`
+  for (let count = 2; urls.has(url); count++) {
+    url = `assets/custom/${name.slice(0, name.length - extension.length)}-${count}${extension}`
+  }
+
+  urls.add(url)
+  return url
+}
+
+function isGlob(pattern: string) {
+  return /[*?{[]/.test(pattern)
+}
+
+/**
+ * Files matching a glob with `*`, `**`, `?`, `[...]` and `{a,b}`, sorted by path
+ *
+ * @param output - Output directory of the documentation, its files are never matched
+ */
+function glob(pattern: string, output: string) {
+  const segments = pattern.replaceAll('\\', '/').split('/')
+  const magic = segments.findIndex(isGlob)
+  const root = segments.slice(0, magic).join('/') || '/'
+  const matcher = globToRegExp(segments.slice(magic).join('/'))
+
+  return listFiles(root, resolve(output))
+    .filter((file) => matcher.test(relative(root, file).replaceAll('\\', '/')))
+    .sort()
+}
+
+/**
+ * Files below the directory, skipping dependencies, hidden directories like `.git` and the output directory
+ */
+function listFiles(directory: string, output: string): string[] {
+  if (!existsSync(directory) || !statSync(directory).isDirectory()) return []
+
+  return readdirSync(directory).flatMap((name) => {
+    const path = join(directory, name)
+    if (!statSync(path).isDirectory()) return [path]
+
+    const skipped = name === 'node_modules' || name.startsWith('.') || path === output
+    return skipped ? [] : listFiles(path, output)
+  })
+}
+
+function globToRegExp(pattern: string) {
+  let source = ''
+  let braces = 0
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index]
+
+    if (char === '*' && pattern[index + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      const slash = pattern[index + 2] === '/'
+      source += slash ? '(?:[^/]*/)*' : '.*'
+      index += slash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', index)
+      source += end === -1 ? '\\[' : pattern.slice(index, end + 1).replace(/^\[!/, '[^')
+      index = end === -1 ? index : end
+    } else if (char === '{') {
+      braces++
+      source += '(?:'
+    } else if (char === '}' && braces) {
+      braces--
+      source += ')'
+    } else if (char === ',' && braces) {
+      source += '|'
+    } else {
+      source += char.replace(/[.+^$()|{}\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
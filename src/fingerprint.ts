@@ -0,0 +1,63 @@
+import { createHash } from 'crypto'
+import { existsSync, readdirSync, readFileSync } from 'fs'
+import { extname, resolve } from 'path'
+
+/**
+ * Assets written while rendering, TypeDoc writes the icons after the pages and the theme the search index
+ */
+const generatedAssets = ['assets/icons.js', 'assets/icons.svg', 'assets/rhineai-search.js']
+
+/**
+ * Content hashed names of the theme assets, keyed by their path in the output directory,
+ * e.g. `assets/rhineai.js` to `assets/rhineai.1a2b3c4d.js`
+ */
+export function fingerprintAssets(directory: string) {
+  const fingerprints = new Map<string, string>()
+
+  for (const name of readdirSync(directory)) {
+    fingerprints.set(`assets/${name}`, fingerprint(`assets/${name}`, readFileSync(resolve(directory, name))))
+  }
+
+  return fingerprints
+}
+
+/**
+ * Content hashed names of the generated assets which exist in the output directory
+ */
+export function fingerprintGeneratedAssets(outputDirectory: string) {
+  const fingerprints = new Map<string, string>()
+
+  for (const path of generatedAssets) {
+    const file = resolve(outputDirectory, path)
+    if (existsSync(file)) {
+      fingerprints.set(path, fingerprint(path, readFileSync(file)))
+    }
+  }
+
+  return fingerprints
+}
+
+/**
+ * Insert the hash of the content into the name of a file
+ */
+export function fingerprint(path: string, content: string | Buffer) {
+  const hash = createHash('sha256').update(content).digest('hex').slice(0, 8)
+  const extension = extname(path)
+
+  return `${path.slice(0, -extension.length)}.${hash}${extension}`
+}
+
+/**
+ * Point the `href`, `src` and `data-*` attributes of a rendered page which link a fingerprinted asset to its hashed
+ * name, keeping the fragment like `#icon-128`. The cache busting query TypeDoc may add is dropped as the name changes
+ * with the content anyway.
+ */
+export function rewriteAssetUrls(contents: string, fingerprints: Map<string, string>) {
+  return contents.replace(
+    /\b(href|src|data-[\w-]+)="((?:\.\.\/)*)([^"?#]+)(?:\?[^"#]*)?(#[^"]*)?"/g,
+    (attribute, name, up, path, fragment = '') => {
+      const hashed = fingerprints.get(path)
+      return hashed ? `${name}="${up}${hashed}${fragment}"` : attribute
+    },
+  )
+}
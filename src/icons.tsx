@@ -0,0 +1,223 @@
+import { JSX, ReflectionKind } from 'typedoc'
+
+import type { Application, DefaultTheme } from 'typedoc'
+
+/**
+ * `badge` draws round badges with the letter of the kind, `codicon` symbols like those of VS Code in the color of the
+ * kind and `outline` monochrome outlined letters
+ */
+export type IconStyle = 'badge' | 'codicon' | 'outline'
+
+export const iconStyles: IconStyle[] = ['badge', 'codicon', 'outline']
+
+type Icons = DefaultTheme['icons']
+
+interface KindIcon {
+  letter: string
+  /**
+   * Suffix of the `--color-ts-*` variable of the kind
+   */
+  color: string
+  glyph: Glyph
+}
+
+type Glyph =
+  | 'braces'
+  | 'box'
+  | 'lollipop'
+  | 'list'
+  | 'tag'
+  | 'cube'
+  | 'brackets'
+  | 'wrench'
+  | 'angles'
+  | 'shape'
+  | 'link'
+  | 'page'
+
+/**
+ * The single source of the kind icons, TypeDoc writes them to `assets/icons.svg` and `assets/icons.js`
+ */
+const kindIcons: Partial<Record<ReflectionKind, KindIcon>> = {
+  [ReflectionKind.Project]: { letter: 'M', color: 'project', glyph: 'braces' },
+  [ReflectionKind.Module]: { letter: 'M', color: 'module', glyph: 'braces' },
+  [ReflectionKind.Namespace]: { letter: 'N', color: 'namespace', glyph: 'braces' },
+  [ReflectionKind.Enum]: { letter: 'E', color: 'enum', glyph: 'list' },
+  [ReflectionKind.EnumMember]: { letter: 'P', color: 'enum-member', glyph: 'tag' },
+  [ReflectionKind.Variable]: { letter: 'V', color: 'variable', glyph: 'brackets' },
+  [ReflectionKind.Function]: { letter: 'F', color: 'function', glyph: 'cube' },
+  [ReflectionKind.Class]: { letter: 'C', color: 'class', glyph: 'box' },
+  [ReflectionKind.Interface]: { letter: 'I', color: 'interface', glyph: 'lollipop' },
+  [ReflectionKind.Constructor]: { letter: 'C', color: 'constructor', glyph: 'cube' },
+  [ReflectionKind.Property]: { letter: 'P', color: 'property', glyph: 'wrench' },
+  [ReflectionKind.Method]: { letter: 'M', color: 'method', glyph: 'cube' },
+  [ReflectionKind.CallSignature]: { letter: 'F', color: 'call-signature', glyph: 'cube' },
+  [ReflectionKind.IndexSignature]: { letter: 'P', color: 'index-signature', glyph: 'wrench' },
+  [ReflectionKind.ConstructorSignature]: { letter: 'C', color: 'constructor-signature', glyph: 'cube' },
+  [ReflectionKind.Parameter]: { letter: 'P', color: 'parameter', glyph: 'brackets' },
+  [ReflectionKind.TypeLiteral]: { letter: 'T', color: 'type-literal', glyph: 'shape' },
+  [ReflectionKind.TypeParameter]: { letter: 'T', color: 'type-parameter', glyph: 'angles' },
+  [ReflectionKind.Accessor]: { letter: 'A', color: 'accessor', glyph: 'wrench' },
+  [ReflectionKind.GetSignature]: { letter: 'A', color: 'get-signature', glyph: 'wrench' },
+  [ReflectionKind.SetSignature]: { letter: 'A', color: 'set-signature', glyph: 'wrench' },
+  [ReflectionKind.TypeAlias]: { letter: 'T', color: 'type-alias', glyph: 'shape' },
+  [ReflectionKind.Reference]: { letter: 'R', color: 'reference', glyph: 'link' },
+}
+
+/**
+ * Nudge the letters into the optical center of the badge
+ */
+const letterOffsets: Record<string, { dx: string; dy: string }> = {
+  A: { dx: '0.01em', dy: '-0.07em' },
+  C: { dx: '-0.02em', dy: '-0.06em' },
+  M: { dx: '0.01em', dy: '-0.07em' },
+  R: { dx: '0.01em', dy: '-0.08em' },
+}
+
+/**
+ * Outlines of the symbols on a 24x24 grid, drawn with a 1.5 wide stroke
+ */
+const glyphs: Record<Glyph, JSX.Element> = {
+  braces: (
+    <path d='M9 4H8a2 2 0 0 0-2 2v4l-2 2 2 2v4a2 2 0 0 0 2 2h1M15 4h1a2 2 0 0 1 2 2v4l2 2-2 2v4a2 2 0 0 1-2 2h-1' />
+  ),
+  box: <path d='M4 7h9v5H4zM11 14h9v5h-9zM8.5 12v4.5H11M13 9.5h3.5V14' />,
+  lollipop: <path d='M4 12h7M15.5 15.5a3.5 3.5 0 1 0 0-7 3.5 3.5 0 0 0 0 7z' />,
+  list: <path d='M4 5h9v6H4zM11 13h9v6h-9zM15 5h5M15 9h5M4 15h5M4 19h5' />,
+  tag: <path d='M4 5h16v14H4zM8 10h8M8 14h5' />,
+  cube: <path d='M12 3l8 4.5v9L12 21l-8-4.5v-9L12 3zM4 7.5l8 4.5 8-4.5M12 12v9' />,
+  brackets: <path d='M8 5H5v14h3M16 5h3v14h-3M9 12h6' />,
+  wrench: (
+    <path d='M14.5 4a4.5 4.5 0 0 0-4.2 6.1L4 16.4 7.6 20l6.3-6.3A4.5 4.5 0 0 0 20 9.5L17 12.5l-3.5-3.5L16.5 6a4.5 4.5 0 0 0-2-2z' />
+  ),
+  angles: <path d='M9 6l-6 6 6 6M15 6l6 6-6 6' />,
+  shape: <path d='M4 4h7v7H4zM17.5 4l3.5 7h-7l3.5-7zM7.5 13.5a3.5 3.5 0 1 1 0 7 3.5 3.5 0 0 1 0-7zM14 14h7v7h-7z' />,
+  link: <path d='M10 6H6v12h12v-4M13 4h7v7M20 4l-9 9' />,
+  page: <path d='M6 5v14h12v-9l-5-5zM9 9h4M9 12h6M9 15h6' />,
+}
+
+/**
+ * TypeDoc's icons with those the theme draws differently replaced. Kinds the theme has no icon for keep the icon of
+ * TypeDoc, so the sprite covers every kind of newer TypeDoc versions as well, while theme icons TypeDoc does not know
+ * are reported and left out.
+ */
+export function mergeIcons(application: Application, defaults: Icons, style: IconStyle): Icons {
+  const icons = { ...defaults }
+
+  for (const [name, icon] of Object.entries(themeIcons(style))) {
+    if (Object.hasOwn(defaults, name)) {
+      Object.assign(icons, { [name]: icon })
+    } else {
+      application.logger.warn(`The theme icon '${iconName(name)}' is unknown to TypeDoc and is not used!`)
+    }
+  }
+
+  return icons
+}
+
+/**
+ * The icons the theme draws differently from TypeDoc, the kind icons in the given style
+ */
+function themeIcons(style: IconStyle): Record<string, () => JSX.Element> {
+  return {
+    ...Object.fromEntries(
+      Object.entries(kindIcons).map(([kind, icon]) => [
+        kind,
+        () => kindIcon(style, icon, ReflectionKind.singularString(Number(kind) as ReflectionKind)),
+      ]),
+    ),
+    [ReflectionKind.Document]: () => documentIcon(style, ReflectionKind.singularString(ReflectionKind.Document)),
+    folder: () => (
+      <svg viewBox='0 0 24 24' aria-hidden='true'>
+        <g stroke='var(--color-icon-folder-border)' fill='var(--color-icon-folder-fill)' stroke-width='1.5'>
+          <polygon points='3,5 11,5 13,7 21,7 21,20 3,20' />
+        </g>
+      </svg>
+    ),
+    chevronDown: () => (
+      <svg width='20' height='20' viewBox='0 0 24 24' fill='none' aria-hidden='true'>
+        <path d='M5 10 L12 17 L19 10 L18 9 L12 15 L6 9 Z' fill='var(--color-icon-arrow)' />
+      </svg>
+    ),
+  }
+}
+
+function iconName(name: string) {
+  return /^\d+$/.test(name) ? ReflectionKind[Number(name)] : name
+}
+
+function kindIcon(style: IconStyle, { letter, color, glyph }: KindIcon, label: string) {
+  const fill = `var(--color-ts-${color})`
+
+  if (style === 'codicon') {
+    return (
+      <svg class='tsd-kind-icon' viewBox='0 0 24 24' aria-label={label}>
+        <g stroke={fill} fill='none' stroke-width='1.5' stroke-linecap='round' stroke-linejoin='round'>
+          {glyphs[glyph]}
+        </g>
+      </svg>
+    )
+  }
+
+  const outline = style === 'outline'
+
+  return (
+    <svg class='tsd-kind-icon' viewBox='0 0 24 24' aria-label={label}>
+      <rect
+        fill={outline ? 'none' : fill}
+        stroke={outline ? 'var(--color-text-aside)' : undefined}
+        stroke-width='1.5'
+        x='1'
+        y='1'
+        width='22'
+        height='22'
+        rx={outline ? '6' : '12'}
+      />
+      <text
+        fill={outline ? 'var(--color-text-aside)' : 'var(--color-icon-kind-text)'}
+        x='50%'
+        y='50%'
+        // the JSX types of TypeDoc lack `dx` and `dy`
+        {...(letterOffsets[letter] ?? { dx: '0.01em', dy: '-0.06em' })}
+        dominant-baseline='central'
+        text-anchor='middle'
+      >
+        {letter}
+      </text>
+    </svg>
+  )
+}
+
+/**
+ * Documents have no letter, their badge shows a page on the background bordered in the color of documents. The page
+ * is drawn in the text color, the white of the letters would vanish on the light background.
+ */
+function documentIcon(style: IconStyle, label: string) {
+  const color = style === 'outline' ? 'var(--color-text-aside)' : 'var(--color-document)'
+
+  return (
+    <svg class='tsd-kind-icon' viewBox='0 0 24 24' aria-label={label}>
+      {style !== 'codicon' && (
+        <rect
+          fill={style === 'badge' ? 'var(--color-icon-background)' : 'none'}
+          stroke={color}
+          stroke-width='1.5'
+          x='1'
+          y='1'
+          width='22'
+          height='22'
+          rx={style === 'badge' ? '12' : '6'}
+        />
+      )}
+      <g
+        stroke={style === 'badge' ? 'var(--color-text)' : color}
+        fill='none'
+        stroke-width='1.5'
+        stroke-linecap='round'
+        stroke-linejoin='round'
+      >
+        {glyphs.page}
+      </g>
+    </svg>
+  )
+}
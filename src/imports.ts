@@ -0,0 +1,103 @@
+import { Converter, ReflectionKind } from 'typedoc'
+
+import type { Application, Reflection } from 'typedoc'
+
+/**
+ * Kinds which are imported with `import type`
+ */
+const typeKinds = ReflectionKind.Interface | ReflectionKind.TypeAlias
+
+/**
+ * Default exports keep their original name in this set, `typedoc-plugin-rename-defaults` renames them after creation
+ */
+const defaultExports = new WeakSet<Reflection>()
+
+/**
+ * Remember which reflections are default exports, before other plugins rename them
+ */
+export function recordDefaultExports(app: Application) {
+  app.converter.on(
+    Converter.EVENT_CREATE_DECLARATION,
+    (_context, reflection) => {
+      if (reflection.name === 'default' || reflection.name === 'export=') {
+        defaultExports.add(reflection)
+      }
+    },
+    100,
+  )
+}
+
+/**
+ * The statement importing a reflection exported by a module, e.g. `import { Cache } from 'pkg/services/cache'`.
+ * Modules re-exporting the reflection are preferred when their path is shorter, like an `index.ts` of a directory.
+ * Members of namespaces are imported by their outermost namespace.
+ */
+export function importStatement(reflection: Reflection): string | undefined {
+  let imported = reflection
+  while (imported.parent?.kindOf(ReflectionKind.Namespace)) {
+    imported = imported.parent
+  }
+
+  if (
+    !imported.isDeclaration() ||
+    imported.kindOf(ReflectionKind.Module | ReflectionKind.Project) ||
+    !imported.parent?.kindOf(ReflectionKind.Module | ReflectionKind.Project)
+  ) {
+    return
+  }
+
+  const exports: { module: Reflection; reflection: Reflection }[] = [
+    { module: imported.parent, reflection: imported },
+    ...imported.project
+      .getReflectionsByKind(ReflectionKind.Reference)
+      .flatMap((reference) =>
+        reference.isReference() &&
+        reference.parent?.kindOf(ReflectionKind.Module | ReflectionKind.Project) &&
+        reference.getTargetReflectionDeep() === imported
+          ? [{ module: reference.parent, reflection: reference }]
+          : [],
+      ),
+  ]
+  const { module, reflection: exported } = exports.reduce((shortest, candidate) =>
+    moduleSpecifier(candidate.module).length < moduleSpecifier(shortest.module).length ? candidate : shortest,
+  )
+
+  const type = imported.kindOf(typeKinds) ? 'type ' : ''
+  const specifier = `'${moduleSpecifier(module)}'`
+
+  // without a plugin renaming default exports they are still named `default` or `export=`
+  if (exported.name === 'default' || exported.name === 'export=') {
+    return `import ${type}${moduleIdentifier(module)} from ${specifier}`
+  }
+
+  return defaultExports.has(exported)
+    ? `import ${type}${exported.name} from ${specifier}`
+    : `import ${type}{ ${exported.name} } from ${specifier}`
+}
+
+/**
+ * The package name followed by the path of the module, modules of packages in a monorepo are named by the package.
+ * Index modules are imported by their directory, the one of the entry point by the package name.
+ */
+function moduleSpecifier(module: Reflection) {
+  const packageName = module.project.packageName ?? module.project.name
+  if (module.isProject()) return packageName
+  if (module.isDeclaration() && module.packageVersion) return module.name
+
+  const path = module.name.replace(/(^|\/)index$/, '')
+  return path ? `${packageName}/${path}` : packageName
+}
+
+/**
+ * A name for the default export of a module, the camel cased name of its file or directory, e.g. `dateUtils` for
+ * `utils/date-utils`
+ */
+function moduleIdentifier(module: Reflection) {
+  const name = moduleSpecifier(module).split('/').pop() ?? ''
+  const identifier = name
+    .replace(/^@/, '')
+    .replace(/[^\w$]+(.)?/g, (_, char?: string) => char?.toUpperCase() ?? '')
+    .replace(/^\d/, '_$&')
+
+  return identifier || 'module'
+}
@@ -1,14 +1,25 @@
+import { extendCodeBlocks } from './code-blocks.js'
+import { setHighlightThemes } from './color-schemes.js'
+import { recordDefaultExports } from './imports.js'
+import { declareOptions, resolveOptions } from './options.js'
 import { RhineaiTheme } from './rhineai-theme.js'
 
 import type { Application } from 'typedoc'
 
+export type { RhineaiThemeOptions } from './options.js'
+
 /**
  * Called by TypeDoc when loading this theme as a plugin
  */
 export function load(app: Application) {
   app.renderer.defineTheme('typedoc-rhineai-theme', RhineaiTheme)
 
+  declareOptions(app)
+  recordDefaultExports(app)
+
   app.on('bootstrapEnd', () => {
+    const resolved = resolveOptions(app)
+
     if (app.options.isSet('theme') && app.options.getValue('theme') !== 'typedoc-rhineai-theme') {
       return app.logger.warn(
         `The theme 'typedoc-rhineai-theme' is not used because another theme (${app.options.getValue('theme')}) was specified!`,
@@ -16,5 +27,11 @@ export function load(app: Application) {
     }
 
     app.options.setValue('theme', 'typedoc-rhineai-theme')
+
+    // the theme is only created when rendering, too late to change the highlighting
+    if (resolved) {
+      setHighlightThemes(app)
+      extendCodeBlocks(app, app.options.getValue('rhineai').codeBlocks)
+    }
   })
 }
@@ -0,0 +1,125 @@
+import { existsSync, readFileSync, statSync } from 'fs'
+import { dirname, extname, resolve } from 'path'
+
+import { Reflection } from 'typedoc'
+
+import type { Application, PageDefinition, RendererEvent } from 'typedoc'
+
+/**
+ * Files whose `id` attributes are targets of `#anchor` links
+ */
+const anchoredExtensions = ['.html', '.svg']
+
+/**
+ * Report every relative link of the rendered pages whose file or `#anchor` does not exist in the output directory,
+ * including the links of the project README and of `@link` tags. The warnings fail the build under
+ * `treatWarningsAsErrors` like the warnings of TypeDoc.
+ *
+ * Root-relative links like `/docs/modules.html` are checked against the path of `hostedBaseUrl`, they are skipped
+ * without it or when they point outside of the documentation.
+ */
+export function validateLinks(application: Application, event: RendererEvent) {
+  const basePath = hostedBasePath(application.options.getValue('hostedBaseUrl'))
+  const anchors = new Map<string, Set<string>>()
+  const anchorsOf = (file: string) => {
+    const cached = anchors.get(file) ?? readAnchors(readFileSync(file, 'utf-8'))
+    anchors.set(file, cached)
+    return cached
+  }
+
+  for (const page of event.pages) {
+    const file = resolve(event.outputDirectory, page.url)
+    if (!existsSync(file)) continue
+
+    for (const link of new Set(readLinks(readFileSync(file, 'utf-8')))) {
+      const [path, anchor] = splitLink(link)
+      const linked = linkedFile(file, path, event.outputDirectory, basePath)
+      if (!linked) continue
+
+      const target = resolveTarget(linked)
+      if (!target) {
+        application.logger.warn(`The link '${link}' of ${pageName(page)} points to a missing file!`)
+      } else if (anchor && anchoredExtensions.includes(extname(target)) && !anchorsOf(target).has(anchor)) {
+        application.logger.warn(`The link '${link}' of ${pageName(page)} points to a missing anchor!`)
+      }
+    }
+  }
+}
+
+/**
+ * The relative links of a page, links with a scheme like `https:` or `mailto:` and the bare `#` of buttons are skipped
+ */
+function readLinks(contents: string) {
+  return Array.from(contents.matchAll(/\shref="([^"]*)"/g), (match) => decodeEntities(match[1])).filter(
+    (link) => link !== '#' && !/^([a-z][\w+.-]*:|\/\/)/i.test(link),
+  )
+}
+
+function readAnchors(contents: string) {
+  return new Set(Array.from(contents.matchAll(/\s(?:id|name)="([^"]*)"/g), (match) => decodeEntities(match[1])))
+}
+
+/**
+ * Split a link into the decoded path, without the query, and the decoded anchor
+ */
+function splitLink(link: string) {
+  const [path, anchor = ''] = link.split('#', 2)
+  return [decode(path.replace(/\?.*$/, '')), decode(anchor)]
+}
+
+/**
+ * The path of the hosted documentation with a trailing slash, e.g. `/docs/` of `https://example.com/docs`
+ */
+function hostedBasePath(hostedBaseUrl: string) {
+  if (!hostedBaseUrl) return
+
+  try {
+    return decode(new URL(hostedBaseUrl).pathname).replace(/\/?$/, '/')
+  } catch {
+    return
+  }
+}
+
+/**
+ * The path a link of a page points to, root-relative links outside of the documentation point nowhere
+ */
+function linkedFile(page: string, path: string, outputDirectory: string, basePath: string | undefined) {
+  if (!path) return page
+  if (!path.startsWith('/')) return resolve(dirname(page), path)
+  if (!basePath) return
+  if (`${path}/` === basePath) return outputDirectory
+
+  return path.startsWith(basePath) ? resolve(outputDirectory, path.slice(basePath.length)) : undefined
+}
+
+/**
+ * The file a link points to, directories are served by their `index.html`
+ */
+function resolveTarget(path: string): string | undefined {
+  const stat = statSync(path, { throwIfNoEntry: false })
+  if (!stat) return
+
+  return stat.isDirectory() ? resolveTarget(resolve(path, 'index.html')) : path
+}
+
+function pageName(page: PageDefinition) {
+  return page.model instanceof Reflection ? `${page.model.getFriendlyFullName()} (${page.url})` : page.url
+}
+
+function decode(text: string) {
+  try {
+    return decodeURIComponent(text)
+  } catch {
+    return text
+  }
+}
+
+function decodeEntities(text: string) {
+  return text
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([\da-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
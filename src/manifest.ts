@@ -0,0 +1,76 @@
+import { writeFileSync } from 'fs'
+import { extname, resolve } from 'path'
+
+import { imageUrl } from './branding.js'
+import { isUrl } from './options.js'
+
+import type { Application, RendererEvent } from 'typedoc'
+import type { LightColorScheme } from './color-schemes.js'
+import type { ManifestIcon } from './options.js'
+
+/**
+ * Write the web app manifest of the rendered project to `manifest.json` in the output directory
+ *
+ * @param colors - Styles of the `colors` option, which win over the colors of the stylesheet
+ * @param stylesheet - Content of the theme stylesheet, colors not set in the options are read from the variables of
+ * the light color scheme
+ */
+export function writeManifest(application: Application, event: RendererEvent, colors: string, stylesheet: string) {
+  const { manifest: options, colorScheme } = application.options.getValue('rhineai')
+  const name = options.name || event.project.name
+  const styles = [colors, colorSchemeRules(stylesheet, colorScheme.light), stylesheet]
+  const color = (variable: string) => styles.map((css) => readCssVariable(css, variable)).find(Boolean)
+
+  const manifest = {
+    name,
+    short_name: options.shortName || name,
+    icons: options.icons.length ? options.icons : defaultIcons(application),
+    scope: './',
+    start_url: application.options.getValue('hostedBaseUrl') || './index.html',
+    display: 'standalone',
+    theme_color: options.themeColor || color('--light-color-background-navbar'),
+    background_color: options.backgroundColor || color('--light-color-background'),
+  }
+
+  writeFileSync(resolve(event.outputDirectory, './manifest.json'), JSON.stringify(manifest, null, 2))
+}
+
+/**
+ * The favicon, TypeDoc's `favicon` option or the bundled one, and the apple touch icon
+ */
+function defaultIcons(application: Application): ManifestIcon[] {
+  const favicon = application.options.getValue('favicon')
+  const { appleTouchIcon } = application.options.getValue('rhineai')
+  const icons: ManifestIcon[] = []
+
+  if (!favicon) {
+    icons.push({ src: 'favicon.ico', sizes: '256x256', type: 'image/x-icon' })
+  } else if (isUrl(favicon)) {
+    icons.push({ src: favicon })
+  } else {
+    icons.push({ src: `assets/favicon${extname(favicon)}`, type: mimeTypes[extname(favicon).toLowerCase()] })
+  }
+
+  if (appleTouchIcon) {
+    icons.push({ src: imageUrl(appleTouchIcon, 'apple-touch-icon'), type: 'image/png' })
+  }
+
+  return icons
+}
+
+const mimeTypes: Record<string, string> = {
+  '.ico': 'image/x-icon',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+}
+
+/**
+ * Declarations of the rule setting the variables of a light color scheme, the default scheme has none
+ */
+function colorSchemeRules(stylesheet: string, scheme: LightColorScheme) {
+  return new RegExp(`\\[data-light-scheme='${scheme}'\\][^{]*\\{([^}]*)\\}`).exec(stylesheet)?.[1] ?? ''
+}
+
+function readCssVariable(stylesheet: string, name: string) {
+  return new RegExp(`${name}:\\s*([^;]+);`).exec(stylesheet)?.[1].trim()
+}
@@ -0,0 +1,629 @@
+import { statSync } from 'fs'
+import { dirname, extname, resolve } from 'path'
+
+import { ParameterType } from 'typedoc'
+
+import { darkColorSchemes, lightColorSchemes } from './color-schemes.js'
+import { colorVariables, kindColorVariables } from './colors.js'
+import { iconStyles } from './icons.js'
+import { repositoryHosts } from './repository.js'
+
+import type { Application, ManuallyValidatedOption, Options } from 'typedoc'
+import type { DarkColorScheme, LightColorScheme } from './color-schemes.js'
+import type { IconStyle } from './icons.js'
+import type { RepositoryHost } from './repository.js'
+
+/**
+ * Options of the theme, set through the `rhineai` object of the TypeDoc configuration
+ */
+export interface RhineaiThemeOptions {
+  footer: FooterOptions
+  manifest: ManifestOptions
+  /**
+   * PNG icon used when the documentation is added to the home screen of iOS devices
+   */
+  appleTouchIcon: string
+  logo: LogoOptions
+  /**
+   * Register a service worker which precaches the documentation, so it can be read offline
+   */
+  serviceWorker: boolean
+  fingerprint: FingerprintOptions
+  bundleCss: BundleCssOptions
+  /**
+   * How scrollbars are shown, readers can change it in the settings panel
+   */
+  scrollbar: ScrollbarMode
+  colorScheme: ColorSchemeOptions
+  kindColors: ColorOptions
+  colors: ColorOptions
+  /**
+   * Stylesheets linked after the theme stylesheet, paths or globs relative to the configuration file
+   */
+  customCss: string | string[]
+  /**
+   * Scripts loaded after the theme scripts, paths or globs relative to the configuration file
+   */
+  customJs: string | string[]
+  /**
+   * How the reflection kind icons are drawn
+   */
+  iconStyle: IconStyle
+  /**
+   * Check that the relative links and anchors of the rendered pages resolve, broken ones are reported as warnings
+   */
+  validateLinks: boolean
+  sourceButtons: SourceButtonsOptions
+  /**
+   * Show the statement importing the reflection on the pages of exported reflections
+   */
+  importSnippet: boolean
+  codeBlocks: CodeBlocksOptions
+  /**
+   * Open a command palette with Ctrl+K or Cmd+K, searching the reflections, documents and headings
+   */
+  commandPalette: boolean
+  searchIndex: SearchIndexOptions
+  /**
+   * Preview the signature, summary and module of the hovered or selected result of TypeDoc's search
+   */
+  searchPreview: boolean
+  searchAnalytics: SearchAnalyticsOptions
+  sidebarSections: SidebarSectionsOptions
+}
+
+/**
+ * `hidden` hides every scrollbar, `thin` shows slim scrollbars in the accent color, `overlay` shows those only while
+ * hovering the scrolled element and `native` leaves them to the browser
+ */
+export type ScrollbarMode = 'hidden' | 'thin' | 'overlay' | 'native'
+
+/**
+ * GitHub color schemes used by the light and dark theme, readers can pick the others in the settings panel
+ */
+export interface ColorSchemeOptions {
+  light: LightColorScheme
+  dark: DarkColorScheme
+}
+
+/**
+ * Colors of each color scheme. `colors` is keyed by the name of the variable without the scheme prefix, e.g.
+ * `color-link` sets `--light-color-link` or `--dark-color-link`, `kindColors` by the name of the reflection kind,
+ * e.g. `TypeAlias` sets `--light-color-ts-type-alias` or `--dark-color-ts-type-alias`
+ */
+export interface ColorOptions {
+  light: Record<string, string>
+  dark: Record<string, string>
+}
+
+export interface SourceButtonsOptions {
+  /**
+   * Show a "View source" button in the page header, linking the source of the reflection or document
+   */
+  viewSource: boolean
+  /**
+   * Show an "Edit on GitHub" button in the page header, linking the editor of the host
+   */
+  editPage: boolean
+  /**
+   * Host whose URL patterns the source links of TypeDoc follow
+   */
+  host: RepositoryHost
+  /**
+   * URL of the repository, defaults to the one of the source links
+   */
+  repository: string
+  /**
+   * Branch opened by the edit links, defaults to the revision of the source links. The pages have no edit links
+   * when that is a commit.
+   */
+  branch: string
+}
+
+export interface CodeBlocksOptions {
+  /**
+   * Number the lines of every code block, single blocks are numbered with `showLineNumbers` in their info string
+   */
+  lineNumbers: boolean
+  /**
+   * Collapse blocks with more lines behind a "Show more" button, `0` never collapses them
+   */
+  collapseAfter: number
+}
+
+export interface SearchIndexOptions {
+  /**
+   * Characters of the comment or document text indexed per reflection, bounding the size of the index. `0` leaves
+   * the text out. It does not apply to the previews, whose signatures and summary are cut at 200 and 160 characters,
+   * nor to the headings, which are indexed by their text.
+   */
+  maxTextLength: number
+}
+
+/**
+ * `console` logs the search events, `post` posts them as JSON to `endpoint` and `callback` passes them to the global
+ * function named by `callback`
+ */
+export type SearchAnalyticsAdapter = 'none' | 'console' | 'post' | 'callback'
+
+export interface SearchAnalyticsOptions {
+  /**
+   * Where the events of the command palette and TypeDoc's search are sent, the queries with their result count and
+   * the selected results
+   */
+  adapter: SearchAnalyticsAdapter
+  /**
+   * Path of the same origin URL the `post` adapter posts to, e.g. `/api/search-events`, required by that adapter
+   */
+  endpoint: string
+  /**
+   * Name of the global function the `callback` adapter calls with every event, e.g. defined by a `customJs` script.
+   * Required by that adapter.
+   */
+  callback: string
+}
+
+export interface SidebarSectionsOptions {
+  /**
+   * Let readers star pages, which are listed in a "Pinned" section above the navigation
+   */
+  pinned: boolean
+  /**
+   * Pages recently visited by the reader listed in a "Recent" section above the navigation, `0` hides the section
+   */
+  recent: number
+}
+
+export interface FooterOptions {
+  /**
+   * Columns of links rendered above the copyright line
+   */
+  links: FooterLinkColumn[]
+  /**
+   * Copyright holder, defaults to the project name
+   */
+  copyright: string
+  hideCopyright: boolean
+  /**
+   * Show when the documentation was generated
+   */
+  showBuildDate: boolean
+}
+
+export interface FooterLinkColumn {
+  title: string
+  /**
+   * Links of the column, keyed by their label like TypeDoc's `navigationLinks`
+   */
+  links: Record<string, string>
+}
+
+declare module 'typedoc' {
+  export interface TypeDocOptionMap {
+    rhineai: ManuallyValidatedOption<RhineaiThemeOptions>
+  }
+}
+
+export interface ManifestOptions {
+  /**
+   * Write `manifest.json` to the output directory and link it from every page
+   */
+  enabled: boolean
+  /**
+   * Name of the installed app, defaults to the project name
+   */
+  name: string
+  shortName: string
+  /**
+   * Colors of the installed app, default to the navbar and background colors of the light color scheme
+   */
+  themeColor: string
+  backgroundColor: string
+  /**
+   * Icons of the installed app, `src` is relative to the output directory
+   */
+  icons: ManifestIcon[]
+}
+
+export interface ManifestIcon {
+  src: string
+  sizes?: string
+  type?: string
+  purpose?: string
+}
+
+/**
+ * Images are paths relative to the configuration file, or URLs which are linked as they are
+ */
+export interface LogoOptions {
+  /**
+   * Logo rendered in front of the project name in the toolbar
+   */
+  light: string
+  /**
+   * Logo used by the dark theme, defaults to the light one
+   */
+  dark: string
+}
+
+export interface FingerprintOptions {
+  /**
+   * Link the theme assets, the icons and the search index by content hashed names, e.g. `assets/rhineai.1a2b3c4d.js`
+   */
+  enabled: boolean
+  /**
+   * Write `asset-manifest.json`, mapping the path of every theme asset to its hashed name
+   */
+  assetManifest: boolean
+}
+
+export interface BundleCssOptions {
+  /**
+   * Merge TypeDoc's stylesheet and the theme stylesheet into one minified stylesheet
+   */
+  enabled: boolean
+  /**
+   * Inline the rules styling the top of the page into every page and load the stylesheet without blocking
+   */
+  inlineCritical: boolean
+}
+
+/**
+ * Checks a user set option value, returns a message for every problem found
+ */
+type Validator = (value: unknown, path: string) => string[]
+
+export const defaultOptions: RhineaiThemeOptions = {
+  footer: {
+    links: [],
+    copyright: '',
+    hideCopyright: false,
+    showBuildDate: false,
+  },
+  manifest: {
+    enabled: true,
+    name: '',
+    shortName: '',
+    themeColor: '',
+    backgroundColor: '',
+    icons: [],
+  },
+  appleTouchIcon: '',
+  logo: {
+    light: '',
+    dark: '',
+  },
+  serviceWorker: false,
+  fingerprint: {
+    enabled: false,
+    assetManifest: false,
+  },
+  bundleCss: {
+    enabled: false,
+    inlineCritical: false,
+  },
+  scrollbar: 'thin',
+  colorScheme: {
+    light: 'default',
+    dark: 'default',
+  },
+  kindColors: {
+    light: {},
+    dark: {},
+  },
+  colors: {
+    light: {},
+    dark: {},
+  },
+  customCss: [],
+  customJs: [],
+  iconStyle: 'badge',
+  validateLinks: false,
+  sourceButtons: {
+    viewSource: true,
+    editPage: true,
+    host: 'github',
+    repository: '',
+    branch: '',
+  },
+  importSnippet: true,
+  codeBlocks: {
+    lineNumbers: false,
+    collapseAfter: 20,
+  },
+  commandPalette: true,
+  searchIndex: {
+    maxTextLength: 300,
+  },
+  searchPreview: true,
+  searchAnalytics: {
+    adapter: 'none',
+    endpoint: '',
+    callback: '',
+  },
+  sidebarSections: {
+    pinned: true,
+    recent: 5,
+  },
+}
+
+const validators: Record<keyof RhineaiThemeOptions, Validator> = {
+  footer: objectOf({
+    links: arrayOf(
+      objectOf(
+        {
+          title: isString,
+          links: recordOf(isString),
+        },
+        ['title', 'links'],
+      ),
+    ),
+    copyright: isString,
+    hideCopyright: isBoolean,
+    showBuildDate: isBoolean,
+  }),
+  manifest: objectOf({
+    enabled: isBoolean,
+    name: isString,
+    shortName: isString,
+    themeColor: isString,
+    backgroundColor: isString,
+    icons: arrayOf(
+      objectOf(
+        {
+          src: isString,
+          sizes: isString,
+          type: isString,
+          purpose: isString,
+        },
+        ['src'],
+      ),
+    ),
+  }),
+  appleTouchIcon: isImage(['.png']),
+  logo: objectOf({
+    light: isImage(['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp']),
+    dark: isImage(['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp']),
+  }),
+  serviceWorker: isBoolean,
+  fingerprint: objectOf({
+    enabled: isBoolean,
+    assetManifest: isBoolean,
+  }),
+  bundleCss: objectOf({
+    enabled: isBoolean,
+    inlineCritical: isBoolean,
+  }),
+  scrollbar: isOneOf(['hidden', 'thin', 'overlay', 'native']),
+  colorScheme: objectOf({
+    light: isOneOf(lightColorSchemes),
+    dark: isOneOf(darkColorSchemes),
+  }),
+  kindColors: objectOf({
+    light: colorMapOf(kindColorVariables, 'reflection kind'),
+    dark: colorMapOf(kindColorVariables, 'reflection kind'),
+  }),
+  colors: objectOf({
+    light: colorMapOf(colorVariables, 'color variable'),
+    dark: colorMapOf(colorVariables, 'color variable'),
+  }),
+  customCss: oneOrArrayOf(isString),
+  customJs: oneOrArrayOf(isString),
+  iconStyle: isOneOf(iconStyles),
+  validateLinks: isBoolean,
+  sourceButtons: objectOf({
+    viewSource: isBoolean,
+    editPage: isBoolean,
+    host: isOneOf(repositoryHosts),
+    repository: isString,
+    branch: isString,
+  }),
+  importSnippet: isBoolean,
+  codeBlocks: objectOf({
+    lineNumbers: isBoolean,
+    collapseAfter: isCount,
+  }),
+  commandPalette: isBoolean,
+  searchIndex: objectOf({
+    maxTextLength: isCount,
+  }),
+  searchPreview: isBoolean,
+  searchAnalytics: isSearchAnalytics,
+  sidebarSections: objectOf({
+    pinned: isBoolean,
+    recent: isCount,
+  }),
+}
+
+/**
+ * Declare the `rhineai` option, must be called before the configuration is read
+ */
+export function declareOptions(app: Application) {
+  app.options.addDeclaration({
+    name: 'rhineai',
+    help: 'Options of typedoc-rhineai-theme, see https://github.com/RhineAI/typedoc-rhineai-theme#theme-options',
+    type: ParameterType.Object,
+    configFileOnly: true,
+    defaultValue: defaultOptions,
+    validate(value) {
+      if (!isPlainObject(value)) {
+        throw new Error(`The option 'rhineai' must be an object!`)
+      }
+    },
+  })
+}
+
+/**
+ * Validate the `rhineai` option set by the user and replace it with the user values merged into the defaults,
+ * so partials can read every setting without checking for `undefined`. Returns whether the option is valid.
+ */
+export function resolveOptions(app: Application) {
+  const value = app.options.getValue('rhineai')
+  const errors = objectOf(validators)(value, 'rhineai')
+
+  if (errors.length) {
+    errors.forEach((error) => app.logger.error(error))
+    return false
+  }
+
+  app.options.setValue('rhineai', merge(defaultOptions, value) as RhineaiThemeOptions)
+  return true
+}
+
+/**
+ * Resolve a path set in the `rhineai` option relative to the configuration file, like TypeDoc's own path options
+ */
+export function resolveOptionPath(options: Options, path: string) {
+  const file = options.getValue('options')
+  if (!file) return resolve(path)
+
+  return resolve(statSync(file, { throwIfNoEntry: false })?.isDirectory() ? file : dirname(file), path)
+}
+
+/**
+ * Whether an image option is an URL, which is linked as it is instead of being copied
+ */
+export function isUrl(path: string) {
+  return /^https?:\/\//i.test(path)
+}
+
+function objectOf(shape: Record<string, Validator>, required: string[] = []): Validator {
+  return (value, path) => {
+    if (!isPlainObject(value)) {
+      return [`The option '${path}' must be an object!`]
+    }
+
+    return [
+      ...required.filter((key) => !Object.hasOwn(value, key)).map((key) => `The option '${path}.${key}' is required!`),
+      ...Object.entries(value).flatMap(([key, option]) =>
+        Object.hasOwn(shape, key) ? shape[key](option, `${path}.${key}`) : [`Unknown option '${path}.${key}'!`],
+      ),
+    ]
+  }
+}
+
+function arrayOf(item: Validator): Validator {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return [`The option '${path}' must be an array!`]
+    }
+
+    return value.flatMap((option, index) => item(option, `${path}[${index}]`))
+  }
+}
+
+function oneOrArrayOf(item: Validator): Validator {
+  return (value, path) => (Array.isArray(value) ? arrayOf(item)(value, path) : item(value, path))
+}
+
+function recordOf(item: Validator): Validator {
+  return (value, path) => {
+    if (!isPlainObject(value)) {
+      return [`The option '${path}' must be an object!`]
+    }
+
+    return Object.entries(value).flatMap(([key, option]) => item(option, `${path}.${key}`))
+  }
+}
+
+function isString(value: unknown, path: string) {
+  return typeof value === 'string' ? [] : [`The option '${path}' must be a string!`]
+}
+
+function isBoolean(value: unknown, path: string) {
+  return typeof value === 'boolean' ? [] : [`The option '${path}' must be a boolean!`]
+}
+
+function isCount(value: unknown, path: string) {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+    ? []
+    : [`The option '${path}' must be a non-negative integer!`]
+}
+
+/**
+ * URLs with a scheme or a host are rejected, the path is resolved against the origin of the documentation
+ */
+function isPath(value: unknown, path: string) {
+  if (typeof value !== 'string') {
+    return [`The option '${path}' must be a string!`]
+  }
+
+  return /^([a-z][\w+.-]*:|\/\/)/i.test(value) ? [`The option '${path}' must be a path on the same origin!`] : []
+}
+
+/**
+ * The `post` adapter needs the endpoint it posts to and the `callback` adapter the name of the function it calls
+ */
+function isSearchAnalytics(value: unknown, path: string) {
+  const errors = objectOf({
+    adapter: isOneOf(['none', 'console', 'post', 'callback']),
+    endpoint: isPath,
+    callback: isString,
+  })(value, path)
+  if (errors.length || !isPlainObject(value)) return errors
+
+  if (value.adapter === 'post' && !value.endpoint) {
+    return [`The option '${path}.endpoint' is required by the 'post' adapter!`]
+  }
+  if (value.adapter === 'callback' && !value.callback) {
+    return [`The option '${path}.callback' is required by the 'callback' adapter!`]
+  }
+  return []
+}
+
+function isOneOf(values: readonly string[]): Validator {
+  return (value, path) =>
+    typeof value === 'string' && values.includes(value)
+      ? []
+      : [`The option '${path}' must be one of ${values.join(', ')}!`]
+}
+
+/**
+ * @param names - Valid keys of the map, only read when validating as the stylesheets are parsed for them
+ */
+function colorMapOf(names: () => Set<string> | Map<string, string>, noun: string): Validator {
+  return (value, path) => {
+    if (!isPlainObject(value)) {
+      return [`The option '${path}' must be an object!`]
+    }
+
+    const known = names()
+    return Object.entries(value).flatMap(([name, color]) => {
+      if (!known.has(name)) {
+        return [`Unknown ${noun} '${path}.${name}'!`]
+      }
+
+      // the colors end up in a style element, anything ending the declaration or the element is rejected
+      return typeof color === 'string' && color.trim() && !/[;{}<>]/.test(color)
+        ? []
+        : [`The option '${path}.${name}' must be a CSS color!`]
+    })
+  }
+}
+
+function isImage(extensions: string[]): Validator {
+  return (value, path) => {
+    if (typeof value !== 'string') {
+      return [`The option '${path}' must be a string!`]
+    }
+
+    return !value || isUrl(value) || extensions.includes(extname(value).toLowerCase())
+      ? []
+      : [`The option '${path}' must be an URL or a path with one of the extensions ${extensions.join(', ')}!`]
+  }
+}
+
+function merge(defaults: object, value: object): object {
+  const merged: Record<string, unknown> = { ...defaults }
+
+  for (const [key, option] of Object.entries(value)) {
+    const current = merged[key]
+    merged[key] = isPlainObject(current) && isPlainObject(option) ? merge(current, option) : option
+  }
+
+  return merged
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,52 @@
+import { JSX } from 'typedoc'
+
+import { copyButton } from './copy-button.js'
+
+import type { Reflection } from 'typedoc'
+import type { RhineaiThemeContext } from '../rhineai-theme-context.js'
+
+/**
+ * Longer chains show their first and last two reflections, the ones between are listed in a dropdown
+ */
+const maxVisibleCrumbs = 4
+
+export function breadcrumbs(context: RhineaiThemeContext, props: Reflection): JSX.Element {
+  const path: Reflection[] = []
+  for (let reflection = props; reflection.parent; reflection = reflection.parent) {
+    path.unshift(reflection)
+  }
+
+  const crumb = (reflection: Reflection) => (
+    <a href={context.urlTo(reflection)} aria-current={reflection === props ? 'page' : undefined}>
+      {context.reflectionIcon(reflection)}
+      <span>{reflection.name}</span>
+    </a>
+  )
+
+  const hidden = path.length > maxVisibleCrumbs ? path.splice(1, path.length - 3) : []
+
+  return (
+    <nav class='tsd-breadcrumbs' aria-label='Breadcrumb'>
+      <ul class='tsd-breadcrumb'>
+        {path.map((reflection, index) => (
+          <>
+            <li>{crumb(reflection)}</li>
+            {index === 0 && hidden.length > 0 && (
+              <li>
+                <details class='tsd-breadcrumb-overflow'>
+                  <summary aria-label={`Show ${hidden.length} more`}>…</summary>
+                  <ul>
+                    {hidden.map((reflection) => (
+                      <li>{crumb(reflection)}</li>
+                    ))}
+                  </ul>
+                </details>
+              </li>
+            )}
+          </>
+        ))}
+      </ul>
+      {path.length > 0 && copyButton(props.getFullName(), 'Copy the full name')}
+    </nav>
+  )
+}
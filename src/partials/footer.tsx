@@ -1,12 +1,98 @@
-import { JSX } from 'typedoc'
+import { i18n, JSX } from 'typedoc'
 
 import type { RhineaiThemeContext } from '../rhineai-theme-context.js'
 
 export function footer(context: RhineaiThemeContext): JSX.Element {
+  const { links } = context.themeOptions.footer
+
   return (
-    <footer>
+    <footer class='tsd-footer'>
       {context.hook('footer.begin', context)}
+      {links.length > 0 && (
+        <nav class='tsd-footer-links'>
+          {links.map((column) => (
+            <div class='tsd-footer-column'>
+              <h4>{column.title}</h4>
+              <ul>
+                {Object.entries(column.links).map(([label, url]) => (
+                  <li>
+                    <a href={url}>{label}</a>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </nav>
+      )}
+      <div class='tsd-footer-meta'>
+        {copyright(context)}
+        {buildDate(context)}
+        {generator(context)}
+        {customFooter(context)}
+      </div>
       {context.hook('footer.end', context)}
     </footer>
   )
 }
+
+function copyright(context: RhineaiThemeContext) {
+  const options = context.themeOptions.footer
+  if (options.hideCopyright) return
+
+  const { project } = context.page
+  const year = new Date(context.theme.application.renderer.renderStartTime).getFullYear()
+  const name = project.packageVersion ? `${project.name} v${project.packageVersion}` : project.name
+
+  return (
+    <p class='tsd-copyright'>
+      © {year} {options.copyright ? `${options.copyright} · ${name}` : name}
+    </p>
+  )
+}
+
+function buildDate(context: RhineaiThemeContext) {
+  if (!context.themeOptions.footer.showBuildDate) return
+
+  const date = new Date(context.theme.application.renderer.renderStartTime)
+
+  return (
+    <p class='tsd-build-date'>
+      Last built on <time dateTime={date.toISOString()}>{date.toISOString().slice(0, 16).replace('T', ' ')} UTC</time>
+    </p>
+  )
+}
+
+function generator(context: RhineaiThemeContext) {
+  if (context.options.getValue('hideGenerator')) return
+
+  const message = i18n.theme_generated_using_typedoc()
+  const index = message.indexOf('TypeDoc')
+  if (index === -1) {
+    return <p class='tsd-generator'>{message}</p>
+  }
+
+  return (
+    <p class='tsd-generator'>
+      {message.substring(0, index)}
+      <a href='https://typedoc.org/' target='_blank'>
+        TypeDoc
+      </a>
+      {message.substring(index + 'TypeDoc'.length)}
+    </p>
+  )
+}
+
+function customFooter(context: RhineaiThemeContext) {
+  const html = context.options.getValue('customFooterHtml')
+  if (!html) return
+
+  if (context.options.getValue('customFooterHtmlDisableWrapper')) {
+    return <JSX.Raw html={html} />
+  }
+
+  return (
+    <p class='tsd-custom-footer'>
+      <JSX.Raw html={html} />
+    </p>
+  )
+}
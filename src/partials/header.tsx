@@ -0,0 +1,71 @@
+import { JSX } from 'typedoc'
+
+import { importStatement } from '../imports.js'
+import { sourceLinks } from '../repository.js'
+
+import { pinButton } from './sidebar-sections.js'
+
+import type { PageEvent, Reflection } from 'typedoc'
+import type { RhineaiThemeContext } from '../rhineai-theme-context.js'
+
+/**
+ * Add the "View source" and "Edit on GitHub" buttons, the pin button and the import statement to the page title
+ * rendered by TypeDoc
+ */
+export function header(context: RhineaiThemeContext, props: PageEvent<Reflection>, title: JSX.Element): JSX.Element {
+  const buttons = sourceButtons(context, props.model)
+  if (buttons) {
+    title.children.unshift(buttons)
+  }
+
+  const heading = title.children.find(
+    (child): child is JSX.Element => typeof child === 'object' && !Array.isArray(child) && child?.tag === 'h1',
+  )
+  if (heading && context.themeOptions.sidebarSections.pinned) {
+    heading.children.push(pinButton())
+  }
+
+  const statement = context.themeOptions.importSnippet ? importStatement(props.model) : undefined
+  if (statement) {
+    // rendered as a code block of the comments, which TypeDoc highlights and gives a copy button
+    title.children.push(
+      <div class='tsd-import tsd-typography'>
+        <JSX.Raw html={context.markdown(`\`\`\`ts\n${statement}\n\`\`\``)} />
+      </div>,
+    )
+  }
+
+  return title
+}
+
+function sourceButtons(context: RhineaiThemeContext, reflection: Reflection) {
+  const links = sourceLinks(reflection, context.themeOptions.sourceButtons)
+  if (!links) return
+
+  return (
+    <div class='tsd-source-buttons'>
+      {links.view && (
+        <a class='tsd-source-button' href={links.view}>
+          <svg width='16' height='16' viewBox='0 0 16 16' aria-hidden='true'>
+            <path
+              fill='currentColor'
+              d='m11.28 3.22 4.25 4.25a.75.75 0 0 1 0 1.06l-4.25 4.25a.75.75 0 0 1-1.06-1.06L13.94 8l-3.72-3.72a.75.75 0 0 1 1.06-1.06Zm-6.56 0a.75.75 0 0 1 0 1.06L2.06 8l3.72 3.72a.75.75 0 0 1-1.06 1.06L.47 8.53a.75.75 0 0 1 0-1.06l4.25-4.25a.75.75 0 0 1 1.06 0Z'
+            />
+          </svg>
+          View source
+        </a>
+      )}
+      {links.edit && (
+        <a class='tsd-source-button' href={links.edit}>
+          <svg width='16' height='16' viewBox='0 0 16 16' aria-hidden='true'>
+            <path
+              fill='currentColor'
+              d='M11.01 1.43a1.75 1.75 0 0 1 2.48 0l1.08 1.08a1.75 1.75 0 0 1 0 2.48l-8.61 8.61a1.75 1.75 0 0 1-.76.44l-3.25.93a.75.75 0 0 1-.93-.93l.93-3.25a1.75 1.75 0 0 1 .44-.76Zm.18 4.82L9.75 4.81l-6.29 6.29a.25.25 0 0 0-.06.11l-.56 1.95 1.95-.56a.25.25 0 0 0 .11-.06Zm1.24-3.76a.25.25 0 0 0-.36 0L10.81 3.75l1.44 1.44 1.26-1.26a.25.25 0 0 0 0-.36Z'
+            />
+          </svg>
+          Edit on {links.host}
+        </a>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import { JSX } from 'typedoc'
+
+import { colorSchemeVariants } from '../color-schemes.js'
+
+import type { ScrollbarMode } from '../options.js'
+import type { RhineaiThemeContext } from '../rhineai-theme-context.js'
+
+const scrollbarModes: Record<ScrollbarMode, string> = {
+  hidden: 'Hidden',
+  thin: 'Thin',
+  overlay: 'Overlay',
+  native: 'Native',
+}
+
+/**
+ * Add the theme settings to the settings panel rendered by TypeDoc, which keeps its visibility filters and theme
+ * select up to date with TypeDoc itself. The color scheme variants are added to TypeDoc's theme select, whose
+ * script stores the picked value and sets it as `data-theme` of the root element.
+ */
+export function settings(context: RhineaiThemeContext, panel: JSX.Element): JSX.Element {
+  findElement(panel, (props) => props.id === 'tsd-theme')?.children.push(
+    Object.entries(colorSchemeVariants).map(([value, label]) => <option value={value}>{label}</option>),
+  )
+  findElement(panel, (props) => !!props.class?.split(' ').includes('tsd-accordion-details'))?.children.push(
+    scrollbarToggle(context),
+  )
+  return panel
+}
+
+function scrollbarToggle(context: RhineaiThemeContext) {
+  const mode = context.themeOptions.scrollbar
+
+  return (
+    <div class='tsd-scrollbar-toggle'>
+      <label class='settings-label' for='tsd-scrollbar'>
+        Scrollbar
+      </label>
+      <select id='tsd-scrollbar'>
+        {Object.entries(scrollbarModes).map(([value, label]) => (
+          <option value={value} selected={value === mode}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
+
+function findElement(
+  children: JSX.Children,
+  predicate: (props: { id?: string; class?: string }) => boolean,
+): JSX.Element | undefined {
+  if (Array.isArray(children)) {
+    for (const child of children) {
+      const found = findElement(child, predicate)
+      if (found) return found
+    }
+    return
+  }
+
+  if (typeof children !== 'object' || children === null) return
+
+  return children.props && predicate(children.props) ? children : findElement(children.children, predicate)
+}
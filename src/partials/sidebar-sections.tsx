@@ -0,0 +1,59 @@
+import { JSX } from 'typedoc'
+
+import type { PageEvent, Reflection } from 'typedoc'
+import type { RhineaiThemeContext } from '../rhineai-theme-context.js'
+
+/**
+ * Container of the "Pinned" and "Recent" sections above the navigation, filled by `rhineai.js` from the pages the
+ * reader pinned and visited, which are kept in the local storage of the browser. The current page is recorded with
+ * the icon and name it is listed by.
+ */
+export function sidebarSections(context: RhineaiThemeContext, props: PageEvent<Reflection>): JSX.Element {
+  const { pinned, recent } = context.themeOptions.sidebarSections
+  if (!pinned && recent === 0) return <></>
+
+  const { model } = props
+
+  return (
+    <nav
+      class='tsd-sidebar-sections'
+      aria-label='Pinned and recent pages'
+      data-pinned={String(pinned)}
+      data-recent={String(recent)}
+      data-page-url={props.url}
+      data-page-name={model.name}
+      data-page-title={model.isProject() ? model.name : model.getFriendlyFullName()}
+      data-page-icon={String(context.theme.getReflectionIcon(model))}
+      data-icons={context.relativeURL('assets/icons.svg')}
+    />
+  )
+}
+
+/**
+ * Star button of the page title, pinning the page to the "Pinned" section
+ */
+export function pinButton(): JSX.Element {
+  return (
+    <button
+      type='button'
+      class='tsd-pin-button'
+      aria-pressed='false'
+      aria-label='Pin this page'
+      aria-keyshortcuts='Alt+P'
+      title='Pin this page (Alt+P)'
+    >
+      <svg class='tsd-pin-icon' width='16' height='16' viewBox='0 0 16 16' aria-hidden='true'>
+        <path
+          fill='currentColor'
+          d='M8 .25a.75.75 0 0 1 .673.418l1.882 3.815 4.21.612a.75.75 0 0 1 .416 1.279l-3.046 2.97.719 4.192a.751.751 0 0 1-1.088.791L8 12.347l-3.766 1.98a.75.75 0 0 1-1.088-.79l.72-4.194L.818 6.374a.75.75 0 0 1 .416-1.28l4.21-.611L7.327.668A.75.75 0 0 1 8 .25Zm0 2.445L6.615 5.5a.75.75 0 0 1-.564.41l-3.097.45 2.24 2.184a.75.75 0 0 1 .216.664l-.528 3.084 2.769-1.456a.75.75 0 0 1 .698 0l2.77 1.456-.53-3.084a.75.75 0 0 1 .216-.664l2.24-2.183-3.096-.45a.75.75 0 0 1-.564-.41L8 2.694Z'
+        />
+      </svg>
+      <svg class='tsd-pinned-icon' width='16' height='16' viewBox='0 0 16 16' aria-hidden='true'>
+        <path
+          fill='currentColor'
+          d='M8 .25a.75.75 0 0 1 .673.418l1.882 3.815 4.21.612a.75.75 0 0 1 .416 1.279l-3.046 2.97.719 4.192a.751.751 0 0 1-1.088.791L8 12.347l-3.766 1.98a.75.75 0 0 1-1.088-.79l.72-4.194L.818 6.374a.75.75 0 0 1 .416-1.28l4.21-.611L7.327.668A.75.75 0 0 1 8 .25Z'
+        />
+      </svg>
+    </button>
+  )
+}
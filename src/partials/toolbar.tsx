@@ -0,0 +1,74 @@
+import { i18n, JSX } from 'typedoc'
+
+import { imageLink } from '../branding.js'
+
+import type { PageEvent, Reflection } from 'typedoc'
+import type { RhineaiThemeContext } from '../rhineai-theme-context.js'
+
+export function toolbar(context: RhineaiThemeContext, props: PageEvent<Reflection>): JSX.Element {
+  const { project } = props
+
+  return (
+    <header class='tsd-page-toolbar'>
+      <div class='tsd-toolbar-contents container'>
+        <a href={context.options.getValue('titleLink') || context.relativeURL('index.html')} class='title'>
+          {logo(context)}
+          {project.packageVersion ? `${project.name} - v${project.packageVersion}` : project.name}
+        </a>
+        <div id='tsd-toolbar-links'>
+          {Object.entries(context.options.getValue('navigationLinks')).map(([label, url]) => (
+            <a href={url}>{label}</a>
+          ))}
+        </div>
+        <button id='tsd-search-trigger' class='tsd-widget' aria-label={i18n.theme_search()}>
+          {context.icons.search()}
+        </button>
+        <dialog id='tsd-search' aria-label={i18n.theme_search()}>
+          <input
+            role='combobox'
+            id='tsd-search-input'
+            aria-controls='tsd-search-results'
+            aria-autocomplete='list'
+            aria-expanded='true'
+            spellcheck={false}
+            autocapitalize='off'
+            autocomplete='off'
+            placeholder={i18n.theme_search_placeholder()}
+            maxLength={100}
+          />
+          <ul role='listbox' id='tsd-search-results' />
+          <div id='tsd-search-status' aria-live='polite' aria-atomic='true'>
+            <div>{i18n.theme_preparing_search_index()}</div>
+          </div>
+        </dialog>
+        <a
+          href='#'
+          class='tsd-widget menu'
+          id='tsd-toolbar-menu-trigger'
+          data-toggle='menu'
+          aria-label={i18n.theme_menu()}
+        >
+          {context.icons.menu()}
+        </a>
+      </div>
+    </header>
+  )
+}
+
+function logo(context: RhineaiThemeContext) {
+  const { light, dark } = context.themeOptions.logo
+  if (!light) return
+
+  const url = (path: string, name: string) => imageLink(path, name, context.relativeURL)
+
+  if (!dark) {
+    return <img class='tsd-logo' src={url(light, 'logo-light')} alt='' />
+  }
+
+  return (
+    <>
+      <img class='tsd-logo tsd-logo-light' src={url(light, 'logo-light')} alt='' />
+      <img class='tsd-logo tsd-logo-dark' src={url(dark, 'logo-dark')} alt='' />
+    </>
+  )
+}
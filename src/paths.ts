@@ -0,0 +1,12 @@
+import { createRequire } from 'module'
+import { dirname, resolve } from 'path'
+import { fileURLToPath } from 'url'
+
+export const assetsDirectory = resolve(dirname(fileURLToPath(import.meta.url)), '../assets/')
+export const publicDirectory = resolve(dirname(fileURLToPath(import.meta.url)), '../public/')
+
+export const themeStylesheet = resolve(assetsDirectory, './rhineai-style.css')
+export const typedocStylesheet = resolve(
+  dirname(createRequire(import.meta.url).resolve('typedoc/package.json')),
+  './static/style.css',
+)
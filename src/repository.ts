@@ -0,0 +1,132 @@
+import { posix } from 'path'
+
+import type { ProjectReflection, Reflection } from 'typedoc'
+import type { SourceButtonsOptions } from './options.js'
+
+export type RepositoryHost = 'github' | 'gitlab' | 'gitea' | 'bitbucket'
+
+export const repositoryHosts: RepositoryHost[] = ['github', 'gitlab', 'gitea', 'bitbucket']
+
+interface HostPatterns {
+  name: string
+  /**
+   * Matches the file links of the host, capturing the repository, the revision and the path
+   */
+  source: RegExp
+  view: string
+  edit: string
+}
+
+const hosts: Record<RepositoryHost, HostPatterns> = {
+  github: {
+    name: 'GitHub',
+    source: /^(.+?)\/blob\/([^/]+)\/([^#?]+)/,
+    view: '{repository}/blob/{revision}/{path}',
+    edit: '{repository}/edit/{revision}/{path}',
+  },
+  gitlab: {
+    name: 'GitLab',
+    source: /^(.+?)\/-\/blob\/([^/]+)\/([^#?]+)/,
+    view: '{repository}/-/blob/{revision}/{path}',
+    edit: '{repository}/-/edit/{revision}/{path}',
+  },
+  gitea: {
+    name: 'Gitea',
+    source: /^(.+?)\/src\/(?:commit|branch|tag)\/([^/]+)\/([^#?]+)/,
+    view: '{repository}/src/commit/{revision}/{path}',
+    edit: '{repository}/_edit/{revision}/{path}',
+  },
+  bitbucket: {
+    name: 'Bitbucket',
+    source: /^(.+?)\/src\/([^/]+)\/([^#?]+)/,
+    view: '{repository}/src/{revision}/{path}',
+    edit: '{repository}/src/{revision}/{path}?mode=edit',
+  },
+}
+
+interface Repository {
+  url: string
+  revision: string
+  /**
+   * Branch opened by the edit links, unknown when the source links point to a commit, which can not be edited
+   */
+  branch?: string
+  /**
+   * Directory of the files the paths of the links are relative to
+   */
+  root: string
+}
+
+export interface SourceLinks {
+  view?: string
+  edit?: string
+  /**
+   * Name of the host, e.g. `GitHub` for "Edit on GitHub"
+   */
+  host: string
+}
+
+const repositories = new WeakMap<ProjectReflection, Repository | undefined>()
+
+/**
+ * Links to the source of a reflection or markdown document in the repository of the project. TypeDoc's source link
+ * of the reflection is viewed as it is, the other links are built from the URL patterns of the host.
+ */
+export function sourceLinks(reflection: Reflection, options: SourceButtonsOptions): SourceLinks | undefined {
+  const { project } = reflection
+  if (!repositories.has(project)) {
+    repositories.set(project, findRepository(project, options))
+  }
+  const repository = repositories.get(project)
+  const patterns = hosts[options.host]
+
+  const source = reflection.isDeclaration() ? reflection.sources?.[0] : undefined
+  const file =
+    source?.fullFileName ?? (reflection.isDocument() ? project.files.getReflectionPath(reflection) : undefined)
+  if (!file) return
+
+  const path = repository && posix.relative(repository.root, file)
+  // files outside of the repository, e.g. of dependencies, can not be edited
+  const url = (pattern: string, revision: string) =>
+    repository && path && !path.startsWith('..')
+      ? pattern
+          .replace('{repository}', repository.url)
+          .replace('{revision}', revision)
+          .replace('{path}', path.split('/').map(encodeURIComponent).join('/'))
+      : undefined
+
+  const links = {
+    view: options.viewSource ? (source?.url ?? url(patterns.view, repository?.revision ?? '')) : undefined,
+    edit: options.editPage && repository?.branch ? url(patterns.edit, repository.branch) : undefined,
+    host: patterns.name,
+  }
+  return links.view || links.edit ? links : undefined
+}
+
+/**
+ * Read the repository from the first source link TypeDoc created for the project, the end of the linked path
+ * matches the path of the file, which leaves the directory of the repository
+ */
+function findRepository(project: ProjectReflection, options: SourceButtonsOptions): Repository | undefined {
+  for (const reflection of Object.values(project.reflections)) {
+    if (!reflection.isDeclaration()) continue
+
+    for (const source of reflection.sources ?? []) {
+      const match = source.url && hosts[options.host].source.exec(source.url)
+      if (!match) continue
+
+      const path = decodeURIComponent(match[3])
+      if (!source.fullFileName.endsWith(`/${path}`)) continue
+
+      const [, url, revision] = match
+      return {
+        url: options.repository.replace(/\/+$/, '') || url,
+        revision,
+        branch: options.branch || (/^[\da-f]{40}$/.test(revision) ? undefined : revision),
+        root: source.fullFileName.slice(0, -path.length - 1),
+      }
+    }
+  }
+
+  return undefined
+}
@@ -1,7 +1,56 @@
-import { DefaultThemeRenderContext } from 'typedoc'
+import { DefaultThemeRenderContext, JSX } from 'typedoc'
 
+import { breadcrumbs } from './partials/breadcrumbs.js'
 import { footer } from './partials/footer.js'
+import { header } from './partials/header.js'
+import { settings } from './partials/settings.js'
+import { sidebarSections } from './partials/sidebar-sections.js'
+import { toolbar } from './partials/toolbar.js'
+
+import type { PageEvent, Reflection } from 'typedoc'
+import type { RhineaiThemeOptions } from './options.js'
 
 export class RhineaiThemeContext extends DefaultThemeRenderContext {
-  override footer = () => footer(this)
+  constructor(...args: ConstructorParameters<typeof DefaultThemeRenderContext>) {
+    super(...args)
+
+    // the theme settings are added to the panel rendered by TypeDoc
+    const defaultSettings = this.settings
+    this.settings = () => settings(this, defaultSettings())
+
+    // the source buttons are added to the page title rendered by TypeDoc
+    const defaultHeader = this.header
+    this.header = (props) => header(this, props, defaultHeader(props))
+
+    // the pinned and recent pages are listed above the navigation rendered by TypeDoc
+    const defaultNavigation = this.navigation
+    this.navigation = (props) => (
+      <>
+        {sidebarSections(this, props)}
+        {defaultNavigation(props)}
+      </>
+    )
+  }
+
+  /**
+   * The `rhineai` options, already validated and merged with the defaults
+   */
+  get themeOptions(): RhineaiThemeOptions {
+    return this.options.getValue('rhineai')
+  }
+
+  /**
+   * The toolbar renders the `logo` next to the project name
+   */
+  override toolbar = (props: PageEvent<Reflection>) => toolbar(this, props)
+
+  override breadcrumbs = (props: Reflection) => breadcrumbs(this, props)
+
+  /**
+   * The default layout renders the footer after `.container-main`, which fills the whole page in this theme,
+   * so it is rendered at the end of the scrolling `.col-content` through the `content.end` hook instead
+   */
+  override footer = (): JSX.Element => <></>
+
+  contentFooter = () => footer(this)
 }
@@ -1,51 +1,237 @@
-import { cpSync } from 'fs'
-import { dirname, resolve } from 'path'
-import { fileURLToPath } from 'url'
+import { cpSync, readFileSync, writeFileSync } from 'fs'
+import { resolve } from 'path'
 
-// eslint-disable-next-line
-import { DefaultTheme, RendererEvent, JSX } from 'typedoc'
+import { DefaultTheme, PageEvent, RendererEvent, JSX } from 'typedoc'
 
+import { copyImages, imageLink } from './branding.js'
+import { extendHighlightStyles } from './color-schemes.js'
+import { colorStyles } from './colors.js'
+import { bundleStylesheets, deferStylesheet } from './css.js'
+import { copyCustomAssets, resolveCustomAssets } from './custom-assets.js'
+import { fingerprint, fingerprintAssets, fingerprintGeneratedAssets, rewriteAssetUrls } from './fingerprint.js'
+import { mergeIcons } from './icons.js'
+import { validateLinks } from './link-validation.js'
+import { writeManifest } from './manifest.js'
+import { assetsDirectory, publicDirectory, themeStylesheet, typedocStylesheet } from './paths.js'
 import { RhineaiThemeContext } from './rhineai-theme-context.js'
+import { headingEntries, writeSearchIndex } from './search-index.js'
+import { writeServiceWorker } from './service-worker.js'
 
-import type { PageEvent, Reflection, Renderer } from 'typedoc'
+import type { Reflection, Renderer, RendererEvents } from 'typedoc'
+import type { RhineaiThemeOptions, SearchAnalyticsOptions } from './options.js'
+import type { SearchEntry } from './search-index.js'
 
 export class RhineaiTheme extends DefaultTheme {
   constructor(renderer: Renderer) {
     super(renderer)
 
-    // copy the complete assets
-    renderer.on(RendererEvent.END, (event) => {
-      const from = resolve(dirname(fileURLToPath(import.meta.url)), '../assets/')
-      const to = resolve(event.outputDirectory, './assets/')
+    const options = this.application.options.getValue('rhineai')
+    // TypeDoc copies and links the favicon itself when it is set
+    const hasFavicon = this.application.options.isSet('favicon')
+    const custom = resolveCustomAssets(this.application)
+    const colors = colorStyles(options)
+
+    // the render contexts reference these icons, TypeDoc writes them to `assets/icons.svg` and `assets/icons.js`
+    this.icons = mergeIcons(this.application, this.icons, options.iconStyle)
 
-      cpSync(from, to, { recursive: true })
+    // TypeDoc creates a new theme for every render, its listeners are removed once the render ends
+    const listeners: (() => void)[] = []
+    const on = <K extends keyof RendererEvents>(
+      event: K,
+      listener: (...args: RendererEvents[K]) => void,
+      priority?: number,
+    ) => {
+      renderer.on(event, listener, priority)
+      listeners.push(() => renderer.off(event, listener))
+    }
+    on(RendererEvent.END, () => listeners.splice(0).forEach((off) => off()))
+
+    // copy the complete assets
+    on(RendererEvent.END, (event) => {
+      cpSync(assetsDirectory, resolve(event.outputDirectory, './assets/'), { recursive: true })
 
-      const publicFrom = resolve(dirname(fileURLToPath(import.meta.url)), '../public/')
-      const publicTo = resolve(event.outputDirectory, './')
+      if (!hasFavicon) {
+        cpSync(publicDirectory, resolve(event.outputDirectory, './'), { recursive: true })
+      }
 
-      cpSync(publicFrom, publicTo, { recursive: true })
+      copyImages(this.application, event)
+      copyCustomAssets([...custom.stylesheets, ...custom.scripts], event)
+      extendHighlightStyles(event)
     })
 
-    // link the css file
+    // merge TypeDoc's stylesheet and the theme stylesheet into a minified `assets/style.css`
+    const stylesheets = options.bundleCss.enabled
+      ? bundleStylesheets(readFileSync(typedocStylesheet, 'utf-8'), readFileSync(themeStylesheet, 'utf-8'))
+      : undefined
+
+    if (stylesheets) {
+      on(RendererEvent.END, (event) => {
+        writeFileSync(resolve(event.outputDirectory, './assets/style.css'), stylesheets.bundle)
+      })
+
+      if (options.bundleCss.inlineCritical) {
+        on(PageEvent.END, (page) => {
+          page.contents = page.contents && deferStylesheet(page.contents)
+        })
+      }
+    }
+
+    // copy the theme assets under content hashed names as well and link those instead
+    if (options.fingerprint.enabled) {
+      const fingerprints = fingerprintAssets(assetsDirectory)
+      if (stylesheets) {
+        fingerprints.set('assets/style.css', fingerprint('assets/style.css', stylesheets.bundle))
+      }
+      for (const { from, url } of [...custom.stylesheets, ...custom.scripts]) {
+        fingerprints.set(url, fingerprint(url, readFileSync(from)))
+      }
+
+      on(PageEvent.END, (page) => {
+        page.contents = page.contents && rewriteAssetUrls(page.contents, fingerprints)
+      })
+
+      // the icons and the search index are written after the pages, which are rewritten once they are known
+      on(
+        RendererEvent.END,
+        (event) => {
+          const generated = fingerprintGeneratedAssets(event.outputDirectory)
+          for (const page of event.pages) {
+            const file = resolve(event.outputDirectory, page.url)
+            writeFileSync(file, rewriteAssetUrls(readFileSync(file, 'utf-8'), generated))
+          }
+
+          const assets = new Map([...fingerprints, ...generated])
+          for (const [path, hashed] of assets) {
+            cpSync(resolve(event.outputDirectory, path), resolve(event.outputDirectory, hashed))
+          }
+
+          if (options.fingerprint.assetManifest) {
+            writeFileSync(
+              resolve(event.outputDirectory, './asset-manifest.json'),
+              JSON.stringify(Object.fromEntries(assets), null, 2),
+            )
+          }
+        },
+        -25,
+      )
+    }
+
+    // generate the web app manifest
+    if (options.manifest.enabled) {
+      on(RendererEvent.END, (event) =>
+        writeManifest(this.application, event, colors, readFileSync(themeStylesheet, 'utf-8')),
+      )
+    }
+
+    // the features of the search client, the command palette, the previews of TypeDoc's search results and analytics
+    const { searchAnalytics } = options
+    const searchFeatures = [
+      options.commandPalette && 'palette',
+      options.searchPreview && 'preview',
+      searchAnalytics.adapter !== 'none' && 'analytics',
+    ].filter(Boolean)
+
+    // write the entries the search client loads, the headings are only known once their page is rendered
+    if (options.commandPalette || options.searchPreview) {
+      const headings: SearchEntry[] = []
+      on(PageEvent.END, (page) => headings.push(...headingEntries(page)))
+      on(RendererEvent.END, (event) => writeSearchIndex(this, event, headings.splice(0), options.searchIndex))
+    }
+
+    // check the links of the rendered pages, after the assets are written
+    if (options.validateLinks) {
+      on(RendererEvent.END, (event) => validateLinks(this.application, event), -50)
+    }
+
+    // generate the service worker, after every other file of the output is written
+    if (options.serviceWorker) {
+      on(RendererEvent.END, (event) => writeServiceWorker(event), -100)
+    }
+
+    // link the css files, the scripts, the icons and the manifest
     renderer.hooks.on('head.end', (event) => (
       <>
-        <link rel='stylesheet' href={event.relativeURL('assets/rhineai-style.css')} />
+        {!stylesheets && <link rel='stylesheet' href={event.relativeURL('assets/rhineai-style.css')} />}
+        {stylesheets && options.bundleCss.inlineCritical && (
+          <style>
+            <JSX.Raw html={stylesheets.critical} />
+          </style>
+        )}
+        <script>
+          <JSX.Raw html={rootAttributes(options)} />
+        </script>
+        <script defer src={event.relativeURL('assets/rhineai.js')} />
+        {searchFeatures.length > 0 && (
+          <script
+            defer
+            src={event.relativeURL('assets/rhineai-search-client.js')}
+            data-features={searchFeatures.join(' ')}
+            data-index={event.relativeURL('assets/rhineai-search.js')}
+            data-icons={event.relativeURL('assets/icons.svg')}
+            data-analytics={searchAnalytics.adapter !== 'none' ? searchAnalytics.adapter : undefined}
+            data-analytics-target={analyticsTarget(searchAnalytics)}
+          />
+        )}
+        {colors && (
+          <style>
+            <JSX.Raw html={colors} />
+          </style>
+        )}
+        {custom.stylesheets.map(({ url }) => (
+          <link rel='stylesheet' href={event.relativeURL(url)} />
+        ))}
+        {custom.scripts.map(({ url }) => (
+          <script defer src={event.relativeURL(url)} />
+        ))}
+        {!hasFavicon && <link rel='icon' href={event.relativeURL('favicon.ico')} />}
+        {options.appleTouchIcon && (
+          <link
+            rel='apple-touch-icon'
+            href={imageLink(options.appleTouchIcon, 'apple-touch-icon', event.relativeURL)}
+          />
+        )}
+        {options.manifest.enabled && <link rel='manifest' href={event.relativeURL('manifest.json')} />}
+        {options.serviceWorker && (
+          <script>
+            <JSX.Raw
+              html={`if ('serviceWorker' in navigator) navigator.serviceWorker.register(${JSON.stringify(event.relativeURL('service-worker.js'))})`}
+            />
+          </script>
+        )}
       </>
     ))
 
-    // set theme
-    renderer.application.on('bootstrapEnd', () => {
-      if (!this.application.options.isSet('lightHighlightTheme')) {
-        this.application.options.setValue('lightHighlightTheme', 'github-light-default')
-      }
-
-      if (!this.application.options.isSet('darkHighlightTheme')) {
-        this.application.options.setValue('darkHighlightTheme', 'github-dark-default')
-      }
-    })
+    // render the footer at the end of the content
+    renderer.hooks.on('content.end', (context) =>
+      context instanceof RhineaiThemeContext ? context.contentFooter() : <></>,
+    )
   }
 
   getRenderContext(pageEvent: PageEvent<Reflection>) {
     return new RhineaiThemeContext(this.router, this, pageEvent, this.application.options)
   }
 }
+
+/**
+ * The URL the `post` adapter posts the search events to, or the name of the function the `callback` adapter calls
+ */
+function analyticsTarget({ adapter, endpoint, callback }: SearchAnalyticsOptions) {
+  if (adapter === 'post') return endpoint
+  if (adapter === 'callback') return callback
+  return undefined
+}
+
+/**
+ * Set the attributes of the root element the stylesheet depends on, before the page is shown
+ */
+function rootAttributes(options: RhineaiThemeOptions) {
+  const { light, dark } = options.colorScheme
+
+  return [
+    `document.documentElement.dataset.scrollbar = localStorage.getItem("tsd-scrollbar") || ${JSON.stringify(options.scrollbar)};`,
+    light !== 'default' && `document.documentElement.dataset.lightScheme = ${JSON.stringify(light)};`,
+    dark !== 'default' && `document.documentElement.dataset.darkScheme = ${JSON.stringify(dark)};`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
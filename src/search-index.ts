@@ -0,0 +1,262 @@
+import { writeFileSync } from 'fs'
+import { resolve } from 'path'
+import { deflateSync } from 'zlib'
+
+import { Comment, Reflection, ReflectionKind } from 'typedoc'
+
+import type {
+  DeclarationReflection,
+  DefaultTheme,
+  PageEvent,
+  ParameterReflection,
+  RendererEvent,
+  SignatureReflection,
+  TypeParameterReflection,
+} from 'typedoc'
+import type { SearchIndexOptions } from './options.js'
+
+/**
+ * Characters of a signature shown in the search previews, object types can be long
+ */
+const maxSignatureLength = 200
+
+/**
+ * Characters of the one line summary shown in the search previews
+ */
+const maxSummaryLength = 160
+
+/**
+ * Keywords declaring the reflections whose preview shows their name instead of a type
+ */
+const keywords: Partial<Record<ReflectionKind, string>> = {
+  [ReflectionKind.Namespace]: 'namespace',
+  [ReflectionKind.Enum]: 'enum',
+  [ReflectionKind.Class]: 'class',
+  [ReflectionKind.Interface]: 'interface',
+}
+
+/**
+ * An entry of the command palette and the search previews, a reflection, a markdown document or a heading of a page
+ */
+export interface SearchEntry {
+  name: string
+  /**
+   * Kind of the reflection, headings have none
+   */
+  kind?: ReflectionKind
+  /**
+   * Name of the icon in TypeDoc's sprite, e.g. `128` for classes
+   */
+  icon: string
+  /**
+   * Path relative to the output directory
+   */
+  url: string
+  /**
+   * Full name of the module the entry belongs to, the palette groups the results by it
+   */
+  module?: string
+  /**
+   * Full name of the parent reflection, or the title of the page of a heading
+   */
+  parent?: string
+  /**
+   * Plain text of the comment or document, searched when the name does not match
+   */
+  text?: string
+  /**
+   * The signatures of the reflection as they read in TypeScript, overloads have one each
+   */
+  signatures?: string[]
+  /**
+   * First sentence of the comment
+   */
+  summary?: string
+}
+
+/**
+ * The markdown headings of a rendered page, headings of members have the kind of the member
+ */
+export function headingEntries(page: PageEvent): SearchEntry[] {
+  if (!(page.model instanceof Reflection)) return []
+  const model = page.model
+
+  return page.pageSections
+    .flatMap((section) => section.headings)
+    .filter((heading) => heading.kind === undefined)
+    .map((heading) => ({
+      name: heading.text,
+      icon: 'anchor',
+      url: page.url + heading.link,
+      module: moduleName(model, true),
+      parent: model.isProject() ? model.name : model.getFriendlyFullName(),
+    }))
+}
+
+/**
+ * Write the entries to `assets/rhineai-search.js`, which the search client of the theme loads once it is needed.
+ * The entries are deflated and base64 encoded like TypeDoc's `assets/search.js`.
+ */
+export function writeSearchIndex(
+  theme: DefaultTheme,
+  event: RendererEvent,
+  headings: SearchEntry[],
+  options: SearchIndexOptions,
+) {
+  const reflections = theme.router
+    .getLinkTargets()
+    .filter(
+      (reflection): reflection is Reflection =>
+        reflection instanceof Reflection &&
+        (reflection.isDeclaration() || reflection.isDocument()) &&
+        !!reflection.name &&
+        !reflection.flags.isExternal,
+    )
+    .map(
+      (reflection): SearchEntry => ({
+        name: reflection.name,
+        kind: reflection.kind,
+        icon: String(theme.getReflectionIcon(reflection)),
+        url: theme.router.getFullUrl(reflection),
+        module: moduleName(reflection, false),
+        parent: reflection.parent && !reflection.parent.isProject() ? reflection.parent.getFullName() : undefined,
+        text: truncate(searchText(reflection), options.maxTextLength) || undefined,
+        ...previewTexts(reflection),
+      }),
+    )
+
+  const data = deflateSync(JSON.stringify([...reflections, ...headings])).toString('base64')
+  writeFileSync(resolve(event.outputDirectory, './assets/rhineai-search.js'), `window.rhineaiSearchData = "${data}";`)
+}
+
+/**
+ * The summary and `@remarks` of the comments of a reflection and its signatures followed by the documentation of the
+ * parameters, or the content of a document
+ */
+function searchText(reflection: Reflection) {
+  if (reflection.isDocument()) return plainText(Comment.combineDisplayParts(reflection.content))
+  if (!reflection.isDeclaration()) return ''
+
+  const signatures = [...(reflection.signatures ?? []), reflection.getSignature, reflection.setSignature]
+  const comments = [reflection.comment, ...signatures.map((signature) => signature?.comment)]
+  const parameters = signatures.flatMap((signature) => signature?.parameters ?? [])
+
+  return plainText(
+    [
+      ...comments.flatMap((comment) => [comment?.summary, comment?.getTag('@remarks')?.content]),
+      ...parameters.map((parameter) => parameter.comment?.summary),
+    ]
+      .map((parts) => Comment.combineDisplayParts(parts))
+      .join('\n\n'),
+  )
+}
+
+/**
+ * The signatures and summary of a reflection, references show those of the reflection they export
+ */
+function previewTexts(reflection: Reflection): Pick<SearchEntry, 'signatures' | 'summary'> {
+  const target = reflection.isReference() ? reflection.tryGetTargetReflectionDeep() : reflection
+  if (!target?.isDeclaration()) return {}
+
+  return { signatures: signatureTexts(target), summary: summaryText(target) }
+}
+
+/**
+ * The first sentence of the summary of a reflection or its first signature
+ */
+function summaryText(reflection: DeclarationReflection) {
+  const comment = reflection.comment ?? reflection.signatures?.[0]?.comment ?? reflection.getSignature?.comment
+  const summary = plainText(Comment.combineDisplayParts(comment?.summary))
+
+  return truncate(/^.*?[.!?](?=\s|$)/.exec(summary)?.[0] ?? summary, maxSummaryLength) || undefined
+}
+
+/**
+ * The declaration of a reflection, e.g. `get(key: string): T | undefined` for a method or `class Cache<T>`
+ */
+function signatureTexts(reflection: DeclarationReflection) {
+  return declarationTexts(reflection)?.map((text) =>
+    text.length > maxSignatureLength ? text.slice(0, maxSignatureLength) + '…' : text,
+  )
+}
+
+function declarationTexts(reflection: DeclarationReflection): string[] | undefined {
+  const { name, type } = reflection
+  const parameters = typeParameters(reflection.typeParameters)
+
+  if (reflection.signatures?.length) {
+    return reflection.signatures.map((signature) => callSignature(signature))
+  }
+  if (reflection.getSignature || reflection.setSignature) {
+    return [
+      reflection.getSignature && callSignature(reflection.getSignature, 'get '),
+      reflection.setSignature && callSignature(reflection.setSignature, 'set '),
+    ].filter((accessor) => accessor !== undefined)
+  }
+  const keyword = keywords[reflection.kind]
+  if (keyword) {
+    const heritage = [
+      reflection.extendedTypes?.length && `extends ${reflection.extendedTypes.join(', ')}`,
+      reflection.implementedTypes?.length && `implements ${reflection.implementedTypes.join(', ')}`,
+    ].filter(Boolean)
+    return [[keyword, name + parameters, ...heritage].join(' ')]
+  }
+  if (!type) return undefined
+
+  if (reflection.kindOf(ReflectionKind.TypeAlias)) return [`type ${name}${parameters} = ${type.toString()}`]
+  if (reflection.kindOf(ReflectionKind.EnumMember)) return [`${name} = ${type.toString()}`]
+  return [`${name}${reflection.flags.isOptional ? '?' : ''}: ${type.toString()}`]
+}
+
+function callSignature(signature: SignatureReflection, prefix = '') {
+  const parameters = (signature.parameters ?? []).map(parameterText).join(', ')
+  const type = signature.type ? `: ${signature.type.toString()}` : ''
+
+  return `${prefix}${signature.name}${typeParameters(signature.typeParameters)}(${parameters})${type}`
+}
+
+function parameterText(parameter: ParameterReflection) {
+  const rest = parameter.flags.isRest ? '...' : ''
+  const optional = parameter.flags.isOptional || parameter.defaultValue ? '?' : ''
+
+  return `${rest}${parameter.name}${optional}: ${parameter.type?.toString() ?? 'any'}`
+}
+
+function typeParameters(parameters: TypeParameterReflection[] | undefined) {
+  return parameters?.length ? `<${parameters.map((parameter) => parameter.name).join(', ')}>` : ''
+}
+
+/**
+ * Markdown without code blocks, link targets and emphasis, on a single line
+ */
+function plainText(markdown: string) {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#+|>)\s*/gm, '')
+    .replace(/[`*]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Cut the text at the last word ending within the length, which bounds the size of the index
+ */
+function truncate(text: string, length: number) {
+  if (text.length <= length) return text
+
+  const cut = text.slice(0, length + 1)
+  const end = cut.lastIndexOf(' ')
+  return end > 0 ? cut.slice(0, end) : cut.slice(0, length)
+}
+
+/**
+ * Full name of the module containing a reflection, entries of the project itself have none
+ */
+function moduleName(reflection: Reflection, self: boolean) {
+  for (let module = self ? reflection : reflection.parent; module; module = module.parent) {
+    if (module.kindOf(ReflectionKind.SomeModule)) return module.getFullName()
+  }
+
+  return undefined
+}
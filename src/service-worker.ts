@@ -0,0 +1,80 @@
+import { createHash } from 'crypto'
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs'
+import { join, resolve } from 'path'
+
+import type { RendererEvent } from 'typedoc'
+
+/**
+ * Directories of the output whose files are precached next to the rendered pages
+ */
+const precachedDirectories = ['assets', 'media']
+
+/**
+ * Write `service-worker.js` to the output directory, precaching every rendered page and asset so the documentation
+ * works offline. The cache is named by a hash of the precached files, a new build replaces the cache of the old one.
+ */
+export function writeServiceWorker(event: RendererEvent) {
+  const files = [
+    ...event.pages.map((page) => page.url),
+    ...precachedDirectories.flatMap((directory) => listFiles(event.outputDirectory, directory)),
+  ]
+
+  const hash = createHash('sha256')
+  for (const file of files) {
+    hash.update(file).update(readFileSync(resolve(event.outputDirectory, file)))
+  }
+
+  writeFileSync(
+    resolve(event.outputDirectory, './service-worker.js'),
+    serviceWorker(hash.digest('hex').slice(0, 12), ['./', ...files]),
+  )
+}
+
+function listFiles(root: string, directory: string): string[] {
+  if (!existsSync(resolve(root, directory))) return []
+
+  return readdirSync(resolve(root, directory)).flatMap((name) => {
+    const path = join(directory, name).replaceAll('\\', '/')
+    return statSync(resolve(root, path)).isDirectory() ? listFiles(root, path) : [path]
+  })
+}
+
+function serviceWorker(hash: string, files: string[]) {
+  return `const PREFIX = 'typedoc-rhineai-' + self.registration.scope + '-'
+const CACHE = PREFIX + ${JSON.stringify(hash)}
+const PRECACHE = ${JSON.stringify(files)}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(PRECACHE))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith(PREFIX) && key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+self.addEventListener('fetch', (event) => {
+  if (event.request.method !== 'GET' || new URL(event.request.url).origin !== self.location.origin) return
+
+  event.respondWith(
+    caches.open(CACHE).then(async (cache) => {
+      const cached = await cache.match(event.request, { ignoreSearch: true })
+      if (cached) return cached
+
+      const response = await fetch(event.request)
+      if (response.ok) cache.put(event.request, response.clone())
+      return response
+    }),
+  )
+})
+`
+}
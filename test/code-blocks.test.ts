@@ -0,0 +1,107 @@
+// eslint-disable-next-line import-x/no-unresolved -- a module of the Bun runtime
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { Application, LogLevel } from 'typedoc'
+
+import { extendCodeBlocks } from '../src/code-blocks.js'
+
+import type { CodeBlocksOptions } from '../src/options.js'
+
+type Tokens = { info: string; content: string }[]
+
+/**
+ * Infos the fence rule of TypeDoc was called with, its first word is the language TypeDoc highlights
+ */
+const highlighted: string[] = []
+
+/**
+ * Render a fenced code block like TypeDoc does without a highlighter, with the code blocks of the theme
+ */
+let renderFence: (info: string, content: string) => string
+
+beforeAll(async () => {
+  const app = await Application.bootstrap({ logLevel: LogLevel.Error })
+  const options: CodeBlocksOptions = { lineNumbers: false, collapseAfter: 5 }
+  extendCodeBlocks(app, options)
+
+  const parser = {
+    renderer: {
+      rules: {
+        fence: (tokens: Tokens, index: number) => {
+          highlighted.push(tokens[index].info)
+          return `<pre><code class="${tokens[index].info}">${tokens[index].content}</code><button>Copy</button></pre>\n`
+        },
+      },
+    },
+  }
+  app.options.getValue('markdownItLoader')(parser)
+
+  renderFence = (info, content) => parser.renderer.rules.fence([{ info, content }], 0)
+})
+
+const code = 'const a = 1\nconst b = 2\nconst c = 3\n'
+
+describe('extendCodeBlocks', () => {
+  test('keeps blocks without settings as TypeDoc renders them', () => {
+    expect(renderFence('ts', code)).toBe(`<pre><code class="ts">${code}</code><button>Copy</button></pre>\n`)
+  })
+
+  test('highlights by the language and renders the title', () => {
+    const html = renderFence(`ts title="cache.ts"`, code)
+
+    expect(highlighted.at(-1)).toBe('ts')
+    expect(html).toBe(
+      '<div class="tsd-code-block"><div class="tsd-code-title">cache.ts</div>' +
+        `<pre><code class="ts">${code}</code><button>Copy</button></pre></div>\n`,
+    )
+  })
+
+  test('reads the settings of blocks without a language', () => {
+    const html = renderFence(`{2} title='example'`, code)
+
+    expect(highlighted.at(-1)).toBe('')
+    expect(html).toContain('<div class="tsd-code-title">example</div>')
+    expect(html).toContain('<span class="tsd-code-line tsd-code-line-highlighted" data-line="2">')
+  })
+
+  test('wraps the lines and highlights those of the ranges', () => {
+    expect(renderFence('ts {1,3-3}', code)).toBe(
+      '<div class="tsd-code-block"><pre><code class="ts">' +
+        '<span class="tsd-code-line tsd-code-line-highlighted" data-line="1">const a = 1</span>\n' +
+        '<span class="tsd-code-line" data-line="2">const b = 2</span>\n' +
+        '<span class="tsd-code-line tsd-code-line-highlighted" data-line="3">const c = 3</span>\n' +
+        '</code><button>Copy</button></pre></div>\n',
+    )
+  })
+
+  test('cuts the ranges at the first and the last line', () => {
+    const html = renderFence('ts {0-1, 3-1000000000, 7}', code)
+
+    expect(html.match(/data-line="\d+"/g)).toEqual(['data-line="1"', 'data-line="2"', 'data-line="3"'])
+    expect(html.match(/tsd-code-line-highlighted" data-line="\d+"/g)).toEqual([
+      'tsd-code-line-highlighted" data-line="1"',
+      'tsd-code-line-highlighted" data-line="3"',
+    ])
+  })
+
+  test('ignores reversed ranges', () => {
+    expect(renderFence('ts {3-1}', code)).toBe(`<pre><code class="ts">${code}</code><button>Copy</button></pre>\n`)
+  })
+
+  test('numbers the lines of blocks with showLineNumbers', () => {
+    const html = renderFence('ts showLineNumbers', code)
+
+    expect(html).toStartWith('<div class="tsd-code-block tsd-code-line-numbers">')
+    expect(html).toContain('<span class="tsd-code-line" data-line="3">const c = 3</span>')
+    expect(html).not.toContain('tsd-code-line-highlighted')
+  })
+
+  test('collapses blocks with more lines than collapseAfter', () => {
+    const html = renderFence('ts', 'a\nb\nc\nd\ne\nf\n')
+
+    expect(html).toBe(
+      '<div class="tsd-code-block tsd-code-collapsible" style="--tsd-code-max-lines: 5">' +
+        '<pre><code class="ts">a\nb\nc\nd\ne\nf\n</code><button>Copy</button></pre>' +
+        '<button type="button" class="tsd-code-expand" aria-expanded="false">Show more</button></div>\n',
+    )
+  })
+})
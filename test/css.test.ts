@@ -0,0 +1,91 @@
+// eslint-disable-next-line import-x/no-unresolved -- a module of the Bun runtime
+import { describe, expect, test } from 'bun:test'
+
+import { bundleStylesheets, deferStylesheet } from '../src/css.js'
+
+describe('bundleStylesheets', () => {
+  test('minifies rules inside of at-rules', () => {
+    const { bundle } = bundleStylesheets(
+      '@layer typedoc {\n  @media (max-width: 600px) {\n    .a > .b,\n    .c { margin : 0 auto ; }\n  }\n}',
+      '@import url("fonts.css");\n.d { color: red }',
+    )
+
+    expect(bundle).toBe(
+      '@layer typedoc{@media (max-width: 600px){.a>.b,.c{margin:0 auto}}}@import url("fonts.css");.d{color:red}',
+    )
+  })
+
+  test('keeps nested rules and the declarations before them', () => {
+    const { bundle } = bundleStylesheets('', '.a {\n  color: red;\n  .b { color: blue }\n  &:hover { color: green }\n}')
+
+    expect(bundle).toBe('.a{color:red;.b{color:blue}&:hover{color:green}}')
+  })
+
+  test('keeps semicolons and braces of strings and url()', () => {
+    const { bundle } = bundleStylesheets(
+      '',
+      '.a::before { content: "a; }  b"; background: url(data:image/svg+xml;utf8,<svg>}</svg>) }\n.b { color: red }',
+    )
+
+    expect(bundle).toBe(
+      '.a::before{content:"a; }  b";background:url(data:image/svg+xml;utf8,<svg>}</svg>)}.b{color:red}',
+    )
+  })
+
+  test('removes comments', () => {
+    const { bundle } = bundleStylesheets(
+      '/* typedoc */ .a { color: red }',
+      '/**\n * Header\n */\n.b { /* x */ color: blue; /* y */ }',
+    )
+
+    expect(bundle).toBe('.a{color:red}.b{color:blue}')
+  })
+
+  test("removes TypeDoc's declarations the theme sets for the same selector", () => {
+    const { bundle } = bundleStylesheets(
+      '@layer typedoc { .a { color: red; margin: 0 } .b { color: red } }',
+      '.a { color: blue }',
+    )
+
+    expect(bundle).toBe('@layer typedoc{.a{margin:0}.b{color:red}}.a{color:blue}')
+  })
+
+  test('removes conditional declarations the theme sets unconditionally or under the same condition', () => {
+    const { bundle } = bundleStylesheets(
+      '@layer typedoc { @media (max-width: 600px) { .a { color: red; margin: 0; padding: 0 } } }',
+      '@media (max-width: 600px) { .a { margin: 1px } }\n@media (min-width: 601px) { .a { padding: 1px } }\n.a { color: blue }',
+    )
+
+    expect(bundle).toBe(
+      '@layer typedoc{@media (max-width: 600px){.a{padding:0}}}' +
+        '@media (max-width: 600px){.a{margin:1px}}@media (min-width: 601px){.a{padding:1px}}.a{color:blue}',
+    )
+  })
+
+  test('keeps important declarations and drops emptied rules', () => {
+    const { bundle } = bundleStylesheets(
+      '@layer typedoc { .a { color: red !important } .b { color: red } }',
+      '.a { color: blue }\n.b { color: blue }',
+    )
+
+    expect(bundle).toBe('@layer typedoc{.a{color:red!important}}.a{color:blue}.b{color:blue}')
+  })
+
+  test('extracts the rules of the page structure as critical CSS', () => {
+    const { critical } = bundleStylesheets(
+      ':root { --a: 1 }\n.tsd-page-toolbar, .other { top: 0 }\n.other { top: 1px }\n@keyframes spin { from { top: 0 } }',
+      '@media (max-width: 600px) { body { margin: 0 } .other { margin: 0 } }',
+    )
+
+    expect(critical).toBe(':root{--a:1}.tsd-page-toolbar,.other{top:0}@media (max-width: 600px){body{margin:0}}')
+  })
+})
+
+describe('deferStylesheet', () => {
+  test("preloads TypeDoc's stylesheet", () => {
+    expect(deferStylesheet('<link rel="stylesheet" href="../assets/style.1a2b3c4d.css"/>')).toBe(
+      '<link rel="preload" as="style" href="../assets/style.1a2b3c4d.css" onload="this.onload=null;this.rel=\'stylesheet\'"/>' +
+        '<noscript><link rel="stylesheet" href="../assets/style.1a2b3c4d.css"/></noscript>',
+    )
+  })
+})
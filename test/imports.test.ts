@@ -0,0 +1,114 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join, resolve } from 'path'
+
+// eslint-disable-next-line import-x/no-unresolved -- a module of the Bun runtime
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+import { Application, LogLevel } from 'typedoc'
+
+import { importStatement, recordDefaultExports } from '../src/imports.js'
+
+import type { ProjectReflection } from 'typedoc'
+
+/**
+ * Converting the scratch package takes a few seconds
+ */
+const convertTimeout = 30_000
+
+/**
+ * Modules of a scratch package named `pkg`, covering the exports the import statement is built differently for
+ */
+const files = {
+  'package.json': JSON.stringify({ name: 'pkg', version: '1.0.0' }),
+  'tsconfig.json': JSON.stringify({ compilerOptions: { strict: true, esModuleInterop: true }, include: ['./**/*.ts'] }),
+  'index.ts': 'export function version(): string {\n  return "1.0.0"\n}\n',
+  'date-utils.ts': 'export default function format(): string {\n  return ""\n}\n',
+  'legacy.ts': 'function parse(): void {}\nexport = parse\n',
+  'tools.ts': 'export namespace Tools {\n  export function trim(): void {}\n}\n',
+  'cache/index.ts': 'export interface CacheOptions {\n  ttl: number\n}\n',
+}
+
+async function convert(directory: string, plugin: string[]) {
+  const app = await Application.bootstrapWithPlugins({
+    entryPoints: Object.keys(files)
+      .filter((file) => file.endsWith('.ts'))
+      .map((file) => resolve(directory, file)),
+    tsconfig: resolve(directory, 'tsconfig.json'),
+    plugin,
+    logLevel: LogLevel.Error,
+  })
+  recordDefaultExports(app)
+
+  const project = await app.convert()
+  if (!project) {
+    throw new Error('The scratch package could not be converted!')
+  }
+  return project
+}
+
+function statementOf(project: ProjectReflection, name: string | string[]) {
+  const reflection = project.getChildByName(name)
+  if (!reflection) {
+    throw new Error(`The scratch package has no reflection '${name}'!`)
+  }
+  return importStatement(reflection)
+}
+
+function writeFiles(directory: string) {
+  for (const [file, contents] of Object.entries(files)) {
+    mkdirSync(resolve(directory, file, '..'), { recursive: true })
+    writeFileSync(resolve(directory, file), contents)
+  }
+}
+
+describe('importStatement', () => {
+  let directory: string
+  let project: ProjectReflection
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'typedoc-rhineai-imports-'))
+    writeFiles(directory)
+    project = await convert(directory, [])
+  }, convertTimeout)
+
+  afterAll(() => rmSync(directory, { recursive: true, force: true }))
+
+  test('imports the members of the entry module from the package', () => {
+    expect(statementOf(project, ['index', 'version'])).toBe("import { version } from 'pkg'")
+  })
+
+  test('imports the members of an index module from its directory', () => {
+    expect(statementOf(project, ['cache', 'CacheOptions'])).toBe("import type { CacheOptions } from 'pkg/cache'")
+  })
+
+  test('names default exports after their module', () => {
+    expect(statementOf(project, ['date-utils', 'default'])).toBe("import dateUtils from 'pkg/date-utils'")
+    expect(statementOf(project, ['legacy', 'export='])).toBe("import legacy from 'pkg/legacy'")
+  })
+
+  test('imports the members of a namespace by the namespace', () => {
+    expect(statementOf(project, ['tools', 'Tools'])).toBe("import { Tools } from 'pkg/tools'")
+    expect(statementOf(project, ['tools', 'Tools', 'trim'])).toBe("import { Tools } from 'pkg/tools'")
+  })
+
+  test('leaves out modules', () => {
+    expect(statementOf(project, ['tools'])).toBeUndefined()
+  })
+})
+
+describe('importStatement with typedoc-plugin-rename-defaults', () => {
+  let directory: string
+  let project: ProjectReflection
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'typedoc-rhineai-imports-'))
+    writeFiles(directory)
+    project = await convert(directory, ['typedoc-plugin-rename-defaults'])
+  }, convertTimeout)
+
+  afterAll(() => rmSync(directory, { recursive: true, force: true }))
+
+  test('imports renamed default exports by their new name', () => {
+    expect(statementOf(project, ['date-utils', 'format'])).toBe("import format from 'pkg/date-utils'")
+  })
+})
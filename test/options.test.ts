@@ -0,0 +1,56 @@
+// eslint-disable-next-line import-x/no-unresolved -- a module of the Bun runtime
+import { describe, expect, test } from 'bun:test'
+import { Application, LogLevel } from 'typedoc'
+
+import { declareOptions, resolveOptions } from '../src/options.js'
+
+import type { RhineaiThemeOptions } from '../src/options.js'
+
+/**
+ * Resolve the `rhineai` option, returning the errors it is rejected with
+ */
+async function optionErrors(rhineai: Partial<RhineaiThemeOptions>) {
+  const app = await Application.bootstrap({ logLevel: LogLevel.Error })
+  declareOptions(app)
+  app.options.setValue('rhineai', rhineai as RhineaiThemeOptions)
+
+  const errors: string[] = []
+  app.logger.error = (message: string) => {
+    errors.push(message)
+  }
+
+  expect(resolveOptions(app)).toBe(errors.length === 0)
+  return errors
+}
+
+describe('searchAnalytics', () => {
+  test('accepts each adapter with its target', async () => {
+    expect(await optionErrors({ searchAnalytics: { adapter: 'console', endpoint: '', callback: '' } })).toEqual([])
+    expect(await optionErrors({ searchAnalytics: { adapter: 'post', endpoint: '/api/search', callback: '' } })).toEqual(
+      [],
+    )
+    expect(
+      await optionErrors({ searchAnalytics: { adapter: 'callback', endpoint: '', callback: 'trackSearch' } }),
+    ).toEqual([])
+  })
+
+  test('rejects the post adapter without an endpoint', async () => {
+    expect(await optionErrors({ searchAnalytics: { adapter: 'post', endpoint: '', callback: '' } })).toEqual([
+      "The option 'rhineai.searchAnalytics.endpoint' is required by the 'post' adapter!",
+    ])
+  })
+
+  test('rejects endpoints on other origins', async () => {
+    expect(
+      await optionErrors({
+        searchAnalytics: { adapter: 'post', endpoint: 'https://collector.example/', callback: '' },
+      }),
+    ).toEqual(["The option 'rhineai.searchAnalytics.endpoint' must be a path on the same origin!"])
+  })
+
+  test('rejects the callback adapter without a callback', async () => {
+    expect(await optionErrors({ searchAnalytics: { adapter: 'callback', endpoint: '', callback: '' } })).toEqual([
+      "The option 'rhineai.searchAnalytics.callback' is required by the 'callback' adapter!",
+    ])
+  })
+})
@@ -0,0 +1,294 @@
+import { existsSync, readFileSync } from 'fs'
+import { dirname, resolve } from 'path'
+import { inflateSync } from 'zlib'
+
+// eslint-disable-next-line import-x/no-unresolved -- a module of the Bun runtime
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test'
+
+import { readPage, renderExample, renderTime, snapshotPage } from './render.js'
+
+import type { RhineaiThemeOptions } from '../src/options.js'
+import type { SearchEntry } from '../src/search-index.js'
+import type { RenderedExample } from './render.js'
+
+/**
+ * Converting and rendering the example project takes several seconds
+ */
+const renderTimeout = 60_000
+
+/**
+ * A page of each kind the theme renders differently
+ */
+const pages = {
+  index: 'index.html',
+  module: 'modules/models_User.html',
+  class: 'classes/models_User.User.html',
+  interface: 'interfaces/models_User.IUser.html',
+  enum: 'enums/models_User.UserRole.html',
+}
+
+describe('pages', () => {
+  let example: RenderedExample
+
+  beforeAll(async () => {
+    example = await renderExample()
+  }, renderTimeout)
+
+  afterAll(() => example.remove())
+
+  for (const [kind, page] of Object.entries(pages)) {
+    test(`renders the ${kind} page`, async () => {
+      expect(await snapshotPage(example.directory, page)).toMatchSnapshot()
+    })
+  }
+})
+
+describe('footer', () => {
+  test(
+    'shows the year and the date of the render',
+    async () => {
+      const example = await renderExample({
+        footer: { links: [], copyright: 'RhineAI', hideCopyright: false, showBuildDate: true },
+      })
+
+      try {
+        const page = readPage(example.directory, pages.index)
+        expect(page.querySelector('.tsd-copyright')?.textContent).toBe('© 2025 RhineAI · Example Project')
+        expect(page.querySelector('.tsd-build-date')?.textContent).toBe('Last built on 2025-06-15 12:00 UTC')
+        expect(page.querySelector('.tsd-build-date time')?.getAttribute('dateTime')).toBe(renderTime.toISOString())
+      } finally {
+        example.remove()
+      }
+    },
+    renderTimeout,
+  )
+})
+
+describe('source buttons', () => {
+  const commit = '0123456789abcdef0123456789abcdef01234567'
+  const buttons = (example: RenderedExample) =>
+    [...readPage(example.directory, pages.class).querySelectorAll('.tsd-source-button')].map((button) => ({
+      text: button.textContent.trim(),
+      href: button.getAttribute('href'),
+    }))
+
+  test(
+    'hides the edit button when the source links point to a commit',
+    async () => {
+      const example = await renderExample({}, { gitRevision: commit })
+
+      try {
+        expect(buttons(example)).toEqual([
+          { text: 'View source', href: expect.stringContaining(`/blob/${commit}/example/models/User.ts`) },
+        ])
+      } finally {
+        example.remove()
+      }
+    },
+    renderTimeout,
+  )
+
+  test(
+    'edits the configured branch when the source links point to a commit',
+    async () => {
+      const example = await renderExample(
+        { sourceButtons: { viewSource: true, editPage: true, host: 'github', repository: '', branch: 'develop' } },
+        { gitRevision: commit },
+      )
+
+      try {
+        expect(buttons(example)).toEqual([
+          { text: 'View source', href: expect.stringContaining(`/blob/${commit}/example/models/User.ts`) },
+          {
+            text: 'Edit on GitHub',
+            href: 'https://github.com/RhineAI/typedoc-rhineai-theme/edit/develop/example/models/User.ts',
+          },
+        ])
+      } finally {
+        example.remove()
+      }
+    },
+    renderTimeout,
+  )
+})
+
+/**
+ * Option sets changing which assets the pages link
+ */
+const assetOptions: Record<string, Partial<RhineaiThemeOptions>> = {
+  default: {},
+  optimized: {
+    serviceWorker: true,
+    fingerprint: { enabled: true, assetManifest: true },
+    bundleCss: { enabled: true, inlineCritical: true },
+  },
+}
+
+describe('assets', () => {
+  for (const [name, options] of Object.entries(assetOptions)) {
+    test(
+      `links existing assets with the ${name} options`,
+      async () => {
+        const example = await renderExample(options)
+
+        try {
+          const missing = example.pages.flatMap((page) =>
+            Array.from(readPage(example.directory, page).head.querySelectorAll('link[href], script[src]'))
+              .map((element) => element.getAttribute('href') ?? element.getAttribute('src') ?? '')
+              .filter((url) => !/^([a-z]+:|\/\/|#)/i.test(url))
+              .filter((url) => !existsSync(resolve(example.directory, dirname(page), url.replace(/[?#].*$/, ''))))
+              .map((url) => `${page}: ${url}`),
+          )
+
+          expect(missing).toEqual([])
+        } finally {
+          example.remove()
+        }
+      },
+      renderTimeout,
+    )
+  }
+})
+
+describe('fingerprint', () => {
+  test(
+    'fingerprints the icons and the search index written while rendering',
+    async () => {
+      const example = await renderExample({ fingerprint: { enabled: true, assetManifest: true } })
+
+      try {
+        const manifest = JSON.parse(readFileSync(resolve(example.directory, 'asset-manifest.json'), 'utf-8'))
+        expect(Object.keys(manifest)).toEqual(
+          expect.arrayContaining(['assets/icons.js', 'assets/icons.svg', 'assets/rhineai-search.js']),
+        )
+
+        const document = readPage(example.directory, pages.class)
+        const urls = [
+          document.querySelector('#tsd-icons-script')?.getAttribute('src'),
+          document.querySelector('use')?.getAttribute('href'),
+          document.querySelector('script[data-index]')?.getAttribute('data-index'),
+        ]
+        expect(urls).toEqual([
+          `../${manifest['assets/icons.js']}`,
+          expect.stringMatching(new RegExp(`^\\.\\./${manifest['assets/icons.svg'].replaceAll('.', '\\.')}#icon-`)),
+          `../${manifest['assets/rhineai-search.js']}`,
+        ])
+        for (const hashed of Object.values<string>(manifest)) {
+          expect(existsSync(resolve(example.directory, hashed))).toBe(true)
+        }
+      } finally {
+        example.remove()
+      }
+    },
+    renderTimeout,
+  )
+})
+
+describe('manifest', () => {
+  test(
+    'takes the colors of the light color scheme',
+    async () => {
+      const example = await renderExample({
+        manifest: { enabled: true, name: '', shortName: '', themeColor: '', backgroundColor: '', icons: [] },
+        colorScheme: { light: 'high-contrast', dark: 'default' },
+      })
+
+      try {
+        const manifest = JSON.parse(readFileSync(resolve(example.directory, 'manifest.json'), 'utf-8'))
+        expect(manifest).toMatchObject({ theme_color: '#e7ecf0', background_color: '#ffffff' })
+      } finally {
+        example.remove()
+      }
+    },
+    renderTimeout,
+  )
+})
+
+describe('link validation', () => {
+  test(
+    'reports links to missing files and anchors',
+    async () => {
+      const example = await renderExample(
+        { validateLinks: true },
+        {
+          hostedBaseUrl: 'https://example.com/docs/',
+          navigationLinks: {
+            File: 'missing.html',
+            Anchor: 'modules.html#missing',
+            Root: '/docs/missing.html',
+            Valid: '/docs/modules.html',
+            Outside: '/blog/index.html',
+          },
+        },
+      )
+
+      try {
+        expect(example.warnings.filter((warning) => warning.includes('(index.html)'))).toEqual([
+          expect.stringContaining("The link 'missing.html' of Example Project (index.html) points to a missing file!"),
+          expect.stringContaining(
+            "The link 'modules.html#missing' of Example Project (index.html) points to a missing anchor!",
+          ),
+          expect.stringContaining(
+            "The link '/docs/missing.html' of Example Project (index.html) points to a missing file!",
+          ),
+        ])
+      } finally {
+        example.remove()
+      }
+    },
+    renderTimeout,
+  )
+
+  test(
+    'reports the links once per render',
+    async () => {
+      const example = await renderExample({ validateLinks: true }, { navigationLinks: { File: 'missing.html' } })
+
+      const reports = () => example.warnings.filter((warning) => warning.includes("The link 'missing.html'"))
+
+      try {
+        const reported = reports().length
+        expect(reported).toBeGreaterThan(0)
+
+        await example.render()
+        await example.render()
+        expect(reports()).toHaveLength(reported * 3)
+      } finally {
+        example.remove()
+      }
+    },
+    renderTimeout,
+  )
+})
+
+describe('search index', () => {
+  test(
+    'writes the compressed entries with the text cut at maxTextLength',
+    async () => {
+      const example = await renderExample({ searchIndex: { maxTextLength: 40 } })
+
+      try {
+        const script = readFileSync(resolve(example.directory, 'assets/rhineai-search.js'), 'utf-8')
+        const data = /^window\.rhineaiSearchData = "([A-Za-z0-9+/=]+)";$/.exec(script)?.[1] ?? ''
+        const entries: SearchEntry[] = JSON.parse(inflateSync(Buffer.from(data, 'base64')).toString('utf-8'))
+
+        expect(entries).toContainEqual({
+          name: 'Cache',
+          kind: 128,
+          icon: '128',
+          url: 'classes/services_cache_Cache.Cache.html',
+          module: 'services/cache/Cache',
+          parent: 'services/cache/Cache',
+          text: 'Generic cache implementation A',
+          signatures: ['class Cache<K, V>'],
+          summary: 'Generic cache implementation',
+        })
+        expect(entries.filter((entry) => entry.icon === 'anchor').length).toBeGreaterThan(0)
+        expect(entries.filter((entry) => (entry.text?.length ?? 0) > 40)).toEqual([])
+      } finally {
+        example.remove()
+      }
+    },
+    renderTimeout,
+  )
+})
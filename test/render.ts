@@ -0,0 +1,117 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join, resolve } from 'path'
+
+// eslint-disable-next-line import-x/no-unresolved -- a module of the Bun runtime
+import { setSystemTime } from 'bun:test'
+import { parseHTML } from 'linkedom'
+import { format } from 'prettier'
+import { Application, LogLevel } from 'typedoc'
+
+import type { TypeDocOptions } from 'typedoc'
+import type { RhineaiThemeOptions } from '../src/options.js'
+
+/**
+ * Configuration of the example project, it loads the built theme from `dist`
+ */
+const exampleConfig = resolve(import.meta.dirname, '../example/typedoc.json')
+
+/**
+ * Time the example is rendered at, the footer shows its year and the build date
+ */
+export const renderTime = new Date('2025-06-15T12:00:00Z')
+
+export interface RenderedExample {
+  directory: string
+  /**
+   * Paths of the rendered pages relative to the output directory
+   */
+  pages: string[]
+  /**
+   * Warnings logged while rendering
+   */
+  warnings: string[]
+  /**
+   * Render the project into the directory again, with the same application
+   */
+  render: () => Promise<void>
+  remove: () => void
+}
+
+/**
+ * Render the example project into a temporary directory with the given theme options and TypeDoc options
+ */
+export async function renderExample(
+  rhineai: Partial<RhineaiThemeOptions> = {},
+  options: Partial<TypeDocOptions> = {},
+): Promise<RenderedExample> {
+  const directory = mkdtempSync(join(tmpdir(), 'typedoc-rhineai-'))
+
+  const app = await Application.bootstrapWithPlugins({
+    options: exampleConfig,
+    out: directory,
+    // the index page renders the README of the repository otherwise
+    readme: resolve(import.meta.dirname, '../example/README.md'),
+    // source links depend on the remote and the commit of the checkout otherwise
+    sourceLinkTemplate: 'https://github.com/RhineAI/typedoc-rhineai-theme/blob/{gitRevision}/{path}#L{line}',
+    gitRevision: 'main',
+    logLevel: LogLevel.Error,
+    // merged into the defaults by the theme
+    rhineai: rhineai as RhineaiThemeOptions,
+    ...options,
+  })
+
+  const warnings: string[] = []
+  const log = app.logger.log.bind(app.logger)
+  app.logger.log = (message, level) => {
+    if (level === LogLevel.Warn) warnings.push(message)
+    log(message, level)
+  }
+
+  const project = await app.convert()
+  if (!project) {
+    throw new Error('The example project could not be converted!')
+  }
+  const render = async () => {
+    setSystemTime(renderTime)
+    try {
+      await app.generateOutputs(project)
+    } finally {
+      setSystemTime()
+    }
+
+    if (app.logger.hasErrors()) {
+      throw new Error('Rendering the example project logged errors!')
+    }
+  }
+  await render()
+
+  return {
+    directory,
+    pages: listFiles(directory).filter((path) => path.endsWith('.html')),
+    warnings,
+    render,
+    remove: () => rmSync(directory, { recursive: true, force: true }),
+  }
+}
+
+/**
+ * Parse a rendered page
+ */
+export function readPage(directory: string, page: string) {
+  return parseHTML(readFileSync(resolve(directory, page), 'utf-8')).document
+}
+
+/**
+ * The body of a rendered page, formatted so snapshot diffs show the changed elements
+ */
+export function snapshotPage(directory: string, page: string) {
+  return format(readPage(directory, page).body.outerHTML, { parser: 'html', printWidth: 120 })
+}
+
+function listFiles(root: string, directory = ''): string[] {
+  return readdirSync(resolve(root, directory), { withFileTypes: true }).flatMap((entry) => {
+    const path = directory ? `${directory}/${entry.name}` : entry.name
+    return entry.isDirectory() ? listFiles(root, path) : [path]
+  })
+}
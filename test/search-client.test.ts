@@ -0,0 +1,341 @@
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { deflateSync } from 'zlib'
+
+// eslint-disable-next-line import-x/no-unresolved -- a module of the Bun runtime
+import { describe, expect, mock, test } from 'bun:test'
+import { parseHTML } from 'linkedom'
+
+import type { SearchEntry } from '../src/search-index.js'
+
+const client = readFileSync(resolve(import.meta.dirname, '../assets/rhineai-search-client.js'), 'utf-8')
+
+const entries: SearchEntry[] = [
+  {
+    name: 'createCache',
+    kind: 64,
+    icon: '64',
+    url: 'functions/services_cache.createCache.html',
+    module: 'services/cache',
+  },
+  {
+    name: 'CacheOptions',
+    kind: 256,
+    icon: '256',
+    url: 'interfaces/services_cache.CacheOptions.html',
+    module: 'services/cache',
+  },
+  {
+    name: 'Cache',
+    kind: 128,
+    icon: '128',
+    url: 'classes/services_cache.Cache.html',
+    module: 'services/cache',
+    parent: 'services/cache',
+    signatures: ['new Cache<T>(options: CacheOptions): Cache<T>'],
+    summary: 'Generic cache implementation.',
+  },
+  {
+    name: 'Cache headers',
+    icon: '8388608',
+    url: 'documents/Guide.html#cache-headers',
+    module: 'services/cache',
+    parent: 'Guide',
+  },
+  {
+    name: 'LRU',
+    kind: 128,
+    icon: '128',
+    url: 'classes/utils.LRU.html',
+    module: 'utils',
+    text: 'A cache evicting the least recently used entries',
+  },
+]
+
+interface ClientOptions {
+  /**
+   * The `data-` attributes of the script element, like the theme renders them
+   */
+  dataset: Record<string, string>
+  body?: string
+}
+
+/**
+ * Run the search client on a page of linkedom, which does not load scripts, the search index is set on the window
+ * and its script element only fires its load event
+ */
+function loadClient({ dataset, body = '' }: ClientOptions) {
+  const { window, document } = parseHTML(`<html><head></head><body>${body}</body></html>`)
+
+  const script = document.createElement('script')
+  Object.assign(script.dataset, dataset)
+  Object.defineProperty(document, 'currentScript', { value: script })
+
+  const append = document.head.append.bind(document.head)
+  document.head.append = (...nodes: Node[]) => {
+    append(...nodes)
+    nodes.forEach((node) => setTimeout(() => node.dispatchEvent(new window.Event('load'))))
+  }
+  Object.assign(window, { rhineaiSearchData: deflateSync(JSON.stringify(entries)).toString('base64') })
+
+  // linkedom has neither modal dialogs, nor selection or scrolling
+  Object.assign(Object.getPrototypeOf(document.createElement('input')), { select() {} })
+  Object.assign(Object.getPrototypeOf(document.createElement('dialog')), {
+    showModal(this: { open: boolean }) {
+      this.open = true
+    },
+    close(this: { open: boolean }) {
+      this.open = false
+    },
+    scrollIntoView() {},
+  })
+
+  const location = {
+    href: 'https://example.com/docs/index.html',
+    pathname: '/docs/index.html',
+    origin: 'https://example.com',
+  }
+  const navigator = { sendBeacon: mock((_url: URL, _body: Blob) => true) }
+  const console = { info: mock(), warn: mock() }
+
+  // the script runs with the globals of the page
+  new Function('window', 'document', 'location', 'navigator', 'console', 'MutationObserver', client)(
+    window,
+    document,
+    location,
+    navigator,
+    console,
+    window.MutationObserver,
+  )
+
+  const dispatch = (target: EventTarget, type: string, properties: object = {}) =>
+    target.dispatchEvent(Object.assign(new window.Event(type, { bubbles: true }), properties))
+
+  return { window, document, location, navigator, console, dispatch }
+}
+
+function find<T extends Element = HTMLElement>(parent: ParentNode, selector: string) {
+  const element = parent.querySelector<T>(selector)
+  if (!element) throw new Error(`The element ${selector} is missing!`)
+  return element
+}
+
+/**
+ * Wait for the search index to load and the mutation observers to run
+ */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50))
+
+/**
+ * Open the command palette with Ctrl+K and search the query
+ */
+async function searchPalette(page: ReturnType<typeof loadClient>, query: string) {
+  page.dispatch(page.window, 'keydown', { key: 'k', ctrlKey: true })
+  const input = find<HTMLInputElement>(page.document, '.tsd-palette-input')
+
+  input.value = query
+  page.dispatch(input, 'input')
+  await settle()
+  return input
+}
+
+function paletteResults(page: ReturnType<typeof loadClient>) {
+  return [...page.document.querySelectorAll('.tsd-palette-results > li')].map((item) =>
+    item.getAttribute('role') === 'option'
+      ? item.querySelector('.tsd-palette-name')?.textContent
+      : `[${item.textContent}]`,
+  )
+}
+
+describe('command palette', () => {
+  test('ranks exact, prefix and word matches of the name before matches of the text', async () => {
+    const page = loadClient({ dataset: { features: 'palette' } })
+    await searchPalette(page, 'cache')
+
+    expect(paletteResults(page)).toEqual([
+      '[services/cache]',
+      'Cache',
+      'CacheOptions',
+      'Cache headers',
+      'createCache',
+      '[utils]',
+      'LRU',
+    ])
+    expect(page.document.querySelector('[aria-selected=true] .tsd-palette-name')?.textContent).toBe('Cache')
+    expect(page.document.querySelector('.tsd-palette-snippet')?.innerHTML).toBe(
+      'A <mark>c</mark><mark>a</mark><mark>c</mark><mark>h</mark><mark>e</mark> evicting the least recently used entries',
+    )
+  })
+
+  test('matches the characters of the query in order', async () => {
+    const page = loadClient({ dataset: { features: 'palette' } })
+    await searchPalette(page, 'cchopt')
+
+    expect(paletteResults(page)).toEqual(['[services/cache]', 'CacheOptions'])
+    expect(page.document.querySelector('.tsd-palette-name')?.innerHTML).toBe(
+      '<mark>C</mark>a<mark>c</mark><mark>h</mark>e<mark>O</mark><mark>p</mark><mark>t</mark>ions',
+    )
+  })
+
+  test('filters the results by the kind prefix', async () => {
+    const page = loadClient({ dataset: { features: 'palette' } })
+
+    await searchPalette(page, 'class: cache')
+    expect(paletteResults(page)).toEqual(['[services/cache]', 'Cache', '[utils]', 'LRU'])
+
+    await searchPalette(page, 'heading:cache')
+    expect(paletteResults(page)).toEqual(['[services/cache]', 'Cache headers'])
+  })
+
+  test('opens the result selected by the arrow keys', async () => {
+    const page = loadClient({ dataset: { features: 'palette' } })
+    const input = await searchPalette(page, 'cache')
+
+    page.dispatch(input, 'keydown', { key: 'ArrowDown' })
+    page.dispatch(input, 'keydown', { key: 'Enter' })
+
+    expect(page.location.href).toBe('./interfaces/services_cache.CacheOptions.html')
+  })
+})
+
+describe('search preview', () => {
+  const body = '<input id="tsd-search-input"/><ul id="tsd-search-results"></ul>'
+  const result = (url: string, selected = false) =>
+    `<li role="option" aria-selected="${selected}"><a href="./${url}">${url}</a></li>`
+
+  test("previews the selected result of TypeDoc's search", async () => {
+    const page = loadClient({ dataset: { features: 'preview' }, body })
+    const list = find(page.document, '#tsd-search-results')
+
+    list.innerHTML = result('interfaces/services_cache.CacheOptions.html') + result(entries[2].url, true)
+    await settle()
+
+    const pane = find(page.document, '.tsd-search-preview')
+    expect(pane.hidden).toBe(false)
+    expect(pane.querySelector('.tsd-search-preview-module')?.textContent).toBe('services/cache')
+    expect(pane.querySelector('.tsd-search-preview-name')?.textContent).toBe('Cache')
+    expect(pane.querySelector('.tsd-signature')?.textContent).toBe('new Cache<T>(options: CacheOptions): Cache<T>')
+    expect(pane.querySelector('.tsd-search-preview-summary')?.textContent).toBe('Generic cache implementation.')
+  })
+
+  test('previews the hovered result and hides for unknown pages', async () => {
+    const page = loadClient({ dataset: { features: 'preview' }, body })
+    const list = find(page.document, '#tsd-search-results')
+
+    list.innerHTML = result('interfaces/services_cache.CacheOptions.html') + result('missing.html')
+    await settle()
+
+    page.dispatch(find(list, 'a'), 'mouseover')
+    await settle()
+    const pane = find(page.document, '.tsd-search-preview')
+    expect(pane.hidden).toBe(false)
+    expect(pane.querySelector('.tsd-search-preview-name')?.textContent).toBe('CacheOptions')
+
+    page.dispatch(list.querySelectorAll('a')[1], 'mouseover')
+    await settle()
+    expect(pane.hidden).toBe(true)
+  })
+})
+
+describe('search analytics', () => {
+  const searchEvent = { type: 'search', source: 'palette', query: 'cache', resultCount: 5, page: '/docs/index.html' }
+  const selectEvent = {
+    ...searchEvent,
+    type: 'select',
+    result: { name: 'Cache', url: 'classes/services_cache.Cache.html', rank: 1 },
+  }
+
+  test('logs the query and the selected result with the console adapter', async () => {
+    const page = loadClient({ dataset: { features: 'palette analytics', analytics: 'console' } })
+    const input = await searchPalette(page, 'cache')
+    page.dispatch(input, 'keydown', { key: 'Enter' })
+
+    expect(page.console.info.mock.calls).toEqual([
+      ['[search]', { ...searchEvent, timestamp: expect.any(String) }],
+      ['[search]', { ...selectEvent, timestamp: expect.any(String) }],
+    ])
+  })
+
+  test('reports the last query once the page is hidden', async () => {
+    const page = loadClient({ dataset: { features: 'palette analytics', analytics: 'console' } })
+    await searchPalette(page, 'cach')
+    await searchPalette(page, 'cache')
+    page.dispatch(page.window, 'pagehide')
+
+    expect(page.console.info.mock.calls).toEqual([['[search]', { ...searchEvent, timestamp: expect.any(String) }]])
+  })
+
+  test("posts the events of TypeDoc's search to the endpoint with the post adapter", async () => {
+    const page = loadClient({
+      dataset: { features: 'analytics', analytics: 'post', analyticsTarget: '/api/search' },
+      body: '<input id="tsd-search-input"/><ul id="tsd-search-results"></ul>',
+    })
+    const input = find<HTMLInputElement>(page.document, '#tsd-search-input')
+    const list = find(page.document, '#tsd-search-results')
+
+    input.value = 'cache'
+    list.innerHTML = entries
+      .slice(1, 3)
+      .map(({ name, url }) => `<li role="option"><a href="./${url}">${name}</a></li>`)
+      .join('')
+    await settle()
+    page.dispatch(list.querySelectorAll('a')[1], 'click')
+
+    const posted = await Promise.all(
+      page.navigator.sendBeacon.mock.calls.map(async ([url, blob]) => [String(url), JSON.parse(await blob.text())]),
+    )
+    expect(posted).toEqual([
+      [
+        'https://example.com/api/search',
+        { ...searchEvent, source: 'search', resultCount: 2, timestamp: expect.any(String) },
+      ],
+      [
+        'https://example.com/api/search',
+        {
+          ...selectEvent,
+          source: 'search',
+          resultCount: 2,
+          result: { ...selectEvent.result, rank: 2 },
+          timestamp: expect.any(String),
+        },
+      ],
+    ])
+  })
+
+  test('posts no events to other origins', async () => {
+    const page = loadClient({
+      dataset: { features: 'palette analytics', analytics: 'post', analyticsTarget: 'https://collector.example/' },
+    })
+    const input = await searchPalette(page, 'cache')
+    page.dispatch(input, 'keydown', { key: 'Enter' })
+
+    expect(page.navigator.sendBeacon).not.toHaveBeenCalled()
+    expect(page.console.warn).toHaveBeenCalledWith(
+      'The search events are not posted to https://collector.example/, which is not on the same origin!',
+    )
+  })
+
+  test('calls the global function with the callback adapter, which may be defined later', async () => {
+    const page = loadClient({
+      dataset: { features: 'palette analytics', analytics: 'callback', analyticsTarget: 'trackSearch' },
+    })
+    const callback = mock()
+    Object.assign(page.window, { trackSearch: callback })
+
+    const input = await searchPalette(page, 'cache')
+    page.dispatch(input, 'keydown', { key: 'Enter' })
+
+    expect(callback.mock.calls).toEqual([
+      [{ ...searchEvent, timestamp: expect.any(String) }],
+      [{ ...selectEvent, timestamp: expect.any(String) }],
+    ])
+  })
+
+  test('warns about the post and callback adapters without their target', () => {
+    expect(loadClient({ dataset: { features: 'analytics', analytics: 'post' } }).console.warn).toHaveBeenCalledWith(
+      'The search events are not sent, the post adapter has no endpoint!',
+    )
+    expect(loadClient({ dataset: { features: 'analytics', analytics: 'callback' } }).console.warn).toHaveBeenCalledWith(
+      'The search events are not sent, the callback adapter has no callback!',
+    )
+  })
+})